@@ -23,6 +23,15 @@ export class UpstageApi implements ICredentialType {
 			default: '',
 			description: 'The API Key from Upstage Console',
 		},
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: 'https://api.upstage.ai/v1',
+			placeholder: 'https://api.upstage.ai/v1',
+			description:
+				'Base URL of the Upstage API, including the version path. Change it for private endpoints, on-premise deployments or a local test server.',
+		},
 	];
 
 	authenticate: IAuthenticateGeneric = {
@@ -36,8 +45,9 @@ export class UpstageApi implements ICredentialType {
 
 	test: ICredentialTestRequest = {
 		request: {
-			baseURL: 'https://api.upstage.ai',
-			url: '/v1/models',
+			baseURL:
+				'={{($credentials.baseUrl || "").trim().replace(/\\/+$/, "") || "https://api.upstage.ai/v1"}}',
+			url: '/models',
 			method: 'GET',
 		},
 	};
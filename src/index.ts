@@ -14,3 +14,6 @@ export { DocumentChatUpstage } from './nodes/DocumentChatUpstage/DocumentChatUps
 export { LmChatModelUpstage } from './nodes/LmChatModelUpstage/LmChatModelUpstage.node';
 export { EmbeddingsUpstageModel } from './nodes/EmbeddingsUpstageModel/EmbeddingsUpstageModel.node';
 export { DocumentChatModelUpstage } from './nodes/DocumentChatModelUpstage/DocumentChatModelUpstage.node';
+export { DocumentLoaderUpstage } from './nodes/DocumentLoaderUpstage/DocumentLoaderUpstage.node';
+export { LayoutTextSplitterUpstage } from './nodes/LayoutTextSplitterUpstage/LayoutTextSplitterUpstage.node';
+export { DocumentChatToolUpstage } from './nodes/DocumentChatToolUpstage/DocumentChatToolUpstage.node';
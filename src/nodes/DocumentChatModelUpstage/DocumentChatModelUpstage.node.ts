@@ -1,17 +1,45 @@
+import { createHash, randomUUID } from 'crypto';
+import type { BaseLanguageModelInput } from '@langchain/core/language_models/base';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
-import type { BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import type {
+	BaseChatModelCallOptions,
+	BaseChatModelParams,
+	BindToolsInput,
+} from '@langchain/core/language_models/chat_models';
 import type { BaseMessage } from '@langchain/core/messages';
-import { AIMessage, AIMessageChunk } from '@langchain/core/messages';
+import type { ToolCall } from '@langchain/core/messages/tool';
+import {
+	AIMessage,
+	AIMessageChunk,
+	HumanMessage,
+	isAIMessage,
+	isHumanMessage,
+	isSystemMessage,
+	isToolMessage,
+} from '@langchain/core/messages';
 import type { ChatResult } from '@langchain/core/outputs';
 import { ChatGenerationChunk } from '@langchain/core/outputs';
+import type { Runnable } from '@langchain/core/runnables';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
 import type { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
 import {
+	NodeOperationError,
+	type IDataObject,
 	type INodeType,
 	type INodeTypeDescription,
 	type ISupplyDataFunctions,
 	type SupplyData,
 } from 'n8n-workflow';
 
+import { getBaseUrl } from '../../utils/baseUrl';
+import {
+	addCitationFootnotes,
+	getResponseCitations,
+	getResponseText,
+	parseFileIds,
+	waitForDocumentChatFile,
+} from '../../utils/documentChat';
+import { UpstageClient, type MultipartFile } from '../../utils/UpstageClient';
 import { N8nLlmTracing } from '../../utils/N8nLlmTracing';
 import { getConnectionHintNoticeField } from '../../utils/sharedFields';
 
@@ -20,22 +48,439 @@ import { getConnectionHintNoticeField } from '../../utils/sharedFields';
  */
 interface DocumentChatConfig {
 	apiKey: string;
+	baseUrl: string;
 	model: string;
 	fileIds: string[];
+	// Uploads the inline files on first use and returns their IDs
+	resolveFileIds?: () => Promise<string[]>;
 	conversationId?: string;
 	reasoningEffort: string;
 	reasoningSummary: string;
 	temperature?: number;
 	streaming?: boolean;
+	toolCalling: ToolCallingMode;
+	conversationMode: ConversationMode;
+	inlineCitations: boolean;
+	// Called when the API returns a conversation ID different from the current one
+	onConversationId?: (conversationId: string) => void;
+}
+
+/**
+ * Where the files to chat with come from
+ */
+type FileSource = 'fileIds' | 'binary' | 'url';
+
+// Upper bound of entries per map kept in the workflow static data
+const MAX_STORED_ENTRIES = 1000;
+
+// Seconds between two status checks of an uploaded file
+const FILE_POLL_INTERVAL = 2;
+
+/**
+ * Store a value in a static data map, dropping the oldest entries above the limit
+ */
+function setStoredEntry(entries: IDataObject, key: string, value: string) {
+	// Re-insert so the oldest entries are dropped first
+	delete entries[key];
+	entries[key] = value;
+	const keys = Object.keys(entries);
+	for (const staleKey of keys.slice(0, keys.length - MAX_STORED_ENTRIES)) {
+		delete entries[staleKey];
+	}
+}
+
+/**
+ * Read the files of the input item or download them from the configured URLs
+ */
+async function loadInlineFiles(
+	ctx: ISupplyDataFunctions,
+	itemIndex: number,
+	fileSource: FileSource
+): Promise<MultipartFile[]> {
+	const files: MultipartFile[] = [];
+
+	if (fileSource === 'binary') {
+		const item = ctx.getInputData()[itemIndex];
+		const binaryPropertyNames = parseFileIds(
+			ctx.getNodeParameter('binaryPropertyNames', itemIndex, 'data') as string
+		);
+		for (const binaryPropertyName of binaryPropertyNames) {
+			const binaryData = item?.binary?.[binaryPropertyName];
+			if (!binaryData) {
+				throw new NodeOperationError(
+					ctx.getNode(),
+					`No binary data found in property "${binaryPropertyName}"`,
+					{ itemIndex }
+				);
+			}
+			files.push({
+				buffer: await ctx.helpers.getBinaryDataBuffer(
+					itemIndex,
+					binaryPropertyName
+				),
+				filename: binaryData.fileName || 'document',
+				contentType: binaryData.mimeType || 'application/octet-stream',
+			});
+		}
+		return files;
+	}
+
+	const urls = (ctx.getNodeParameter('fileUrls', itemIndex, '') as string)
+		.split(/[\n,]/)
+		.map(url => url.trim())
+		.filter(url => url);
+	for (const url of urls) {
+		const response = await ctx.helpers.httpRequest({
+			method: 'GET',
+			url,
+			encoding: 'arraybuffer',
+			returnFullResponse: true,
+		});
+		const contentType = String(
+			response.headers?.['content-type'] ?? 'application/octet-stream'
+		).split(';')[0];
+		const filename = decodeURIComponent(
+			new URL(url).pathname.split('/').pop() || 'document'
+		);
+		files.push({
+			buffer: Buffer.from(response.body as ArrayBuffer),
+			filename,
+			contentType,
+		});
+	}
+	return files;
+}
+
+/**
+ * Upload the inline files and wait until they are processed.
+ * File IDs are cached in the workflow static data by content hash, so unchanged
+ * files are not uploaded again.
+ */
+async function uploadInlineFiles(
+	ctx: ISupplyDataFunctions,
+	itemIndex: number,
+	fileSource: FileSource,
+	timeout: number
+): Promise<string[]> {
+	const files = await loadInlineFiles(ctx, itemIndex, fileSource);
+	if (files.length === 0) {
+		throw new NodeOperationError(ctx.getNode(), 'No files to chat with', {
+			itemIndex,
+		});
+	}
+
+	const client = await UpstageClient.create(ctx);
+	const staticData = ctx.getWorkflowStaticData('node');
+	staticData.uploadedFiles ??= {};
+	const uploadedFiles = staticData.uploadedFiles as IDataObject;
+	const waitOptions = { pollInterval: FILE_POLL_INTERVAL, timeout };
+
+	const fileIds: string[] = [];
+	for (const file of files) {
+		const hash = createHash('sha256').update(file.buffer).digest('hex');
+		let fileId = uploadedFiles[hash] as string | undefined;
+
+		if (fileId) {
+			try {
+				await waitForDocumentChatFile(client, fileId, waitOptions);
+				console.log(`📄 Reusing uploaded file ${fileId} for ${file.filename}`);
+			} catch (error) {
+				// Deleted, failed or uploaded with other credentials
+				console.warn(`⚠️ Cached file ${fileId} is not usable, uploading again`);
+				fileId = undefined;
+			}
+		}
+
+		if (!fileId) {
+			const uploaded = await client.uploadDocumentChatFile(
+				{ purpose: 'user_data' },
+				file
+			);
+			fileId = uploaded.id as string;
+			console.log(`📤 Uploaded ${file.filename} as ${fileId}`);
+			await waitForDocumentChatFile(client, fileId, waitOptions);
+		}
+
+		setStoredEntry(uploadedFiles, hash, fileId);
+		fileIds.push(fileId);
+	}
+
+	return fileIds;
+}
+
+/**
+ * Where the chat history lives
+ * - auto: the full history is sent until a conversation ID is known, then the conversation is continued
+ * - stateless: every request carries the full message history
+ * - server: only the new turn is sent and the API keeps the history of the conversation ID
+ */
+type ConversationMode = 'auto' | 'stateless' | 'server';
+
+/**
+ * How bound tools are passed to the Document Chat API
+ * - native: Responses-style `tools` field and `function_call` output items
+ * - prompt: tools are described in the prompt and calls are parsed from a ReAct style answer
+ * - auto: native, switching to prompt once the API rejects the `tools` field
+ */
+type ToolCallingMode = 'auto' | 'native' | 'prompt';
+
+/**
+ * Function tool in the Responses API format
+ */
+interface ResponsesFunctionTool {
+	type: 'function';
+	name: string;
+	description?: string;
+	parameters?: Record<string, any>;
+}
+
+interface UpstageDocumentChatCallOptions extends BaseChatModelCallOptions {
+	tools?: ResponsesFunctionTool[];
+}
+
+function toResponsesTool(tool: BindToolsInput): ResponsesFunctionTool {
+	const { function: fn } = convertToOpenAITool(tool);
+	return {
+		type: 'function',
+		name: fn.name,
+		description: fn.description,
+		parameters: fn.parameters as Record<string, any>,
+	};
+}
+
+/**
+ * Plain text of a message, ignoring non-text content parts
+ */
+function getMessageText(message: BaseMessage | undefined): string {
+	if (!message) return '';
+	if (typeof message.content === 'string') return message.content;
+	return (message.content as any[])
+		.map((part: any) => (typeof part === 'string' ? part : (part?.text ?? '')))
+		.join('');
+}
+
+/**
+ * Map LangChain messages to the Responses `instructions` and `input` fields.
+ * System messages become instructions and the files are attached to the last user turn.
+ * Without the full history only the last user turn and the tool turns after it are sent.
+ */
+function toResponsesInput(
+	messages: BaseMessage[],
+	fileIds: string[],
+	options: { fullHistory: boolean; nativeTools: boolean }
+): { instructions?: string; input: any[] } {
+	const lastHumanIndex = messages
+		.map(message => isHumanMessage(message))
+		.lastIndexOf(true);
+	const queryIndex =
+		lastHumanIndex !== -1 ? lastHumanIndex : messages.length - 1;
+
+	const instructions = messages
+		.filter(message => isSystemMessage(message))
+		.map(message => getMessageText(message))
+		.filter(text => text)
+		.join('\n\n');
+
+	const input: any[] = [];
+	messages.forEach((message, index) => {
+		if (index < queryIndex && !options.fullHistory) return;
+
+		if (index === queryIndex) {
+			input.push({
+				role: 'user',
+				content: [
+					...fileIds.map(fileId => ({ type: 'input_file', file_id: fileId })),
+					{ type: 'input_text', text: getMessageText(message) },
+				],
+			});
+		} else if (isAIMessage(message)) {
+			const text = getMessageText(message);
+			if (text) {
+				input.push({
+					role: 'assistant',
+					content: [{ type: 'output_text', text }],
+				});
+			}
+			// Tool calls can only be replayed when the request carries the tools
+			if (options.nativeTools) {
+				for (const toolCall of message.tool_calls ?? []) {
+					input.push({
+						type: 'function_call',
+						call_id: toolCall.id,
+						name: toolCall.name,
+						arguments: JSON.stringify(toolCall.args),
+					});
+				}
+			}
+		} else if (isToolMessage(message)) {
+			if (options.nativeTools) {
+				input.push({
+					type: 'function_call_output',
+					call_id: message.tool_call_id,
+					output: getMessageText(message),
+				});
+			}
+		} else if (isHumanMessage(message)) {
+			input.push({
+				role: 'user',
+				content: [{ type: 'input_text', text: getMessageText(message) }],
+			});
+		}
+	});
+
+	return { instructions: instructions || undefined, input };
+}
+
+/**
+ * Tool calls requested through `function_call` output items
+ */
+function getResponseToolCalls(response: any): ToolCall[] {
+	const output: any[] = Array.isArray(response?.output) ? response.output : [];
+	return output
+		.filter(item => item?.type === 'function_call')
+		.map(item => {
+			let args: Record<string, any> = {};
+			try {
+				args = item.arguments ? JSON.parse(item.arguments) : {};
+			} catch {
+				args = { input: item.arguments };
+			}
+			return {
+				id: item.call_id ?? item.id ?? `call_${randomUUID()}`,
+				name: item.name,
+				args,
+				type: 'tool_call' as const,
+			};
+		});
+}
+
+/**
+ * Whether an API error means the `tools` field is not supported.
+ * Other invalid requests (e.g. an unknown file ID) are not a reason to switch modes.
+ */
+function isToolsRejection(error: unknown): boolean {
+	const message = error instanceof Error ? error.message : '';
+	const match = /Document Chat API error: (400|422) - ([\s\S]*)/.exec(message);
+	return !!match && /\b(tools?|function|function_call)\b/i.test(match[2]);
+}
+
+/**
+ * Replace the tool turn with a single prompt that describes the tools, the question
+ * and the previous tool calls with their observations (ReAct protocol).
+ * Earlier messages are kept as they are.
+ */
+function toReActMessages(
+	messages: BaseMessage[],
+	tools: ResponsesFunctionTool[]
+): BaseMessage[] {
+	const lastHumanIndex = messages
+		.map(message => isHumanMessage(message))
+		.lastIndexOf(true);
+	const question = getMessageText(
+		messages[lastHumanIndex] ?? messages[messages.length - 1]
+	);
+
+	const toolDescriptions = tools
+		.map(
+			tool =>
+				`- ${tool.name}: ${tool.description ?? ''}\n  Input (JSON schema): ${JSON.stringify(tool.parameters ?? {})}`
+		)
+		.join('\n');
+
+	const scratchpad: string[] = [];
+	for (const message of messages.slice(lastHumanIndex + 1)) {
+		if (isAIMessage(message)) {
+			for (const toolCall of message.tool_calls ?? []) {
+				scratchpad.push(
+					`Action: ${toolCall.name}\nAction Input: ${JSON.stringify(toolCall.args)}`
+				);
+			}
+		} else if (isToolMessage(message)) {
+			scratchpad.push(`Observation: ${getMessageText(message)}`);
+		}
+	}
+
+	const prompt = [
+		'You can use the following tools to answer the question:',
+		toolDescriptions,
+		'To use a tool, reply with exactly these two lines and nothing after them:',
+		'Action: <tool name>\nAction Input: <JSON object matching the tool input>',
+		'When you can answer the question, reply with:',
+		'Final Answer: <answer>',
+		`Question: ${question}`,
+		...(scratchpad.length > 0
+			? [
+					scratchpad.join('\n'),
+					'Continue with another Action or the Final Answer.',
+				]
+			: []),
+	].join('\n\n');
+
+	return [...messages.slice(0, lastHumanIndex), new HumanMessage(prompt)];
+}
+
+/**
+ * Parse a ReAct style answer into message content and tool calls
+ */
+function parseReActOutput(
+	text: string,
+	tools: ResponsesFunctionTool[]
+): { content: string; toolCalls: ToolCall[] } {
+	const action =
+		/Action:\s*[`"']?([\w-]+)[`"']?\s*\n+\s*Action Input:\s*([\s\S]*)/i.exec(
+			text
+		);
+	const finalAnswerIndex = text.search(/Final Answer:/i);
+
+	if (
+		action &&
+		tools.some(tool => tool.name === action[1]) &&
+		(finalAnswerIndex === -1 || action.index < finalAnswerIndex)
+	) {
+		const rawInput = action[2].replace(/```(?:json)?/g, '').trim();
+		const jsonStart = rawInput.indexOf('{');
+		const jsonEnd = rawInput.lastIndexOf('}');
+		let args: Record<string, any>;
+		try {
+			args = JSON.parse(rawInput.slice(jsonStart, jsonEnd + 1));
+		} catch {
+			args = { input: rawInput };
+		}
+
+		return {
+			content: text.slice(0, action.index).trim(),
+			toolCalls: [
+				{
+					id: `call_${randomUUID()}`,
+					name: action[1],
+					args,
+					type: 'tool_call',
+				},
+			],
+		};
+	}
+
+	return {
+		content:
+			finalAnswerIndex === -1
+				? text
+				: text.slice(finalAnswerIndex).replace(/^Final Answer:\s*/i, ''),
+		toolCalls: [],
+	};
 }
 
 /**
  * Custom chat model for Upstage Document Chat API
  * Extends BaseChatModel directly for full control
  */
-class UpstageDocumentChatModel extends BaseChatModel {
+class UpstageDocumentChatModel extends BaseChatModel<UpstageDocumentChatCallOptions> {
 	private config: DocumentChatConfig;
 
+	// Set once the API rejected the `tools` field in auto mode
+	private nativeToolsRejected = false;
+
+	private fileIdsPromise?: Promise<string[]>;
+
 	constructor(config: DocumentChatConfig, params?: BaseChatModelParams) {
 		console.log('🔧 UpstageDocumentChatModel constructor called with:', {
 			model: config.model,
@@ -50,6 +495,36 @@ class UpstageDocumentChatModel extends BaseChatModel {
 		console.log('✅ UpstageDocumentChatModel initialized');
 	}
 
+	/**
+	 * IDs of the files to chat with, uploading inline files on first use
+	 */
+	private async getFileIds(): Promise<string[]> {
+		const { resolveFileIds } = this.config;
+		if (!resolveFileIds) return this.config.fileIds;
+
+		this.fileIdsPromise ??= resolveFileIds();
+		try {
+			return await this.fileIdsPromise;
+		} catch (error) {
+			// Allow the next call to retry the upload
+			this.fileIdsPromise = undefined;
+			throw error;
+		}
+	}
+
+	/**
+	 * Reuse the conversation ID returned by the API for the following calls
+	 */
+	private rememberConversation(conversationId?: string) {
+		if (!conversationId || conversationId === this.config.conversationId) {
+			return;
+		}
+
+		console.log(`💬 Using conversation: ${conversationId}`);
+		this.config.conversationId = conversationId;
+		this.config.onConversationId?.(conversationId);
+	}
+
 	_llmType(): string {
 		return 'upstage-document-chat';
 	}
@@ -59,14 +534,18 @@ class UpstageDocumentChatModel extends BaseChatModel {
 	 * Required for Tools Agent compatibility
 	 */
 	bindTools(
-		tools: any[],
-		kwargs?: Partial<this['ParsedCallOptions']>,
-	): this {
+		tools: BindToolsInput[],
+		kwargs?: Partial<UpstageDocumentChatCallOptions>
+	): Runnable<
+		BaseLanguageModelInput,
+		AIMessageChunk,
+		UpstageDocumentChatCallOptions
+	> {
 		console.log('🔧 bindTools called with', tools.length, 'tools');
-		// Document Chat doesn't natively support function calling
-		// But we return 'this' to satisfy the Tools Agent requirement
-		// The tools will be handled by the Agent framework
-		return this;
+		return this.withConfig({
+			tools: tools.map(toResponsesTool),
+			...kwargs,
+		});
 	}
 
 	/**
@@ -81,27 +560,111 @@ class UpstageDocumentChatModel extends BaseChatModel {
 		console.log('📨 Messages count:', messages.length);
 		console.log('🔍 First message:', messages[0]);
 
+		if (options?.tools?.length) {
+			return await this.generateWithTools(
+				messages,
+				options.tools,
+				options?.signal
+			);
+		}
+
 		const response = await this.callDocumentChatAPI(messages, false, options?.signal);
 
 		console.log('📥 API Response received');
 
 		// Extract content from Document Chat response
-		const output = response.output || [];
-		const messageOutput = output.find((item: any) => item.type === 'message');
-		const contentText = messageOutput?.content?.[0]?.text || '';
+		const contentText = getResponseText(response);
 
 		console.log('✅ Extracted content length:', contentText.length);
 
+		return this.toChatResult(response, contentText, []);
+	}
+
+	/**
+	 * Generation with bound tools, natively or through the ReAct prompt
+	 */
+	private async generateWithTools(
+		messages: BaseMessage[],
+		tools: ResponsesFunctionTool[],
+		signal?: AbortSignal
+	): Promise<ChatResult> {
+		const { toolCalling } = this.config;
+
+		if (
+			toolCalling === 'native' ||
+			(toolCalling === 'auto' && !this.nativeToolsRejected)
+		) {
+			try {
+				const response = await this.callDocumentChatAPI(
+					messages,
+					false,
+					signal,
+					tools
+				);
+				const toolCalls = getResponseToolCalls(response);
+				console.log('🔧 Native tool calls:', toolCalls.length);
+				return this.toChatResult(
+					response,
+					getResponseText(response),
+					toolCalls
+				);
+			} catch (error) {
+				if (toolCalling === 'native' || !isToolsRejection(error)) throw error;
+				console.warn(
+					'⚠️ Document Chat API rejected tools, falling back to prompt-based tool calling'
+				);
+				this.nativeToolsRejected = true;
+			}
+		}
+
+		const response = await this.callDocumentChatAPI(
+			toReActMessages(messages, tools),
+			false,
+			signal
+		);
+		const { content, toolCalls } = parseReActOutput(
+			getResponseText(response),
+			tools
+		);
+		console.log('🔧 Prompt-based tool calls:', toolCalls.length);
+		return this.toChatResult(response, content, toolCalls);
+	}
+
+	private toChatResult(
+		response: any,
+		content: string,
+		toolCalls: ToolCall[]
+	): ChatResult {
+		this.rememberConversation(
+			response.conversation?.id || response.conversation_id
+		);
+
+		const citations = getResponseCitations(response);
+		if (this.config.inlineCitations && toolCalls.length === 0) {
+			// Offsets only match when the content is the unmodified answer text
+			content = addCitationFootnotes(
+				content,
+				content === getResponseText(response)
+					? citations
+					: citations.map(({ startIndex, endIndex, ...citation }) => citation)
+			);
+		}
+
 		return {
 			generations: [
 				{
-					text: contentText,
-					message: new AIMessage(contentText),
+					text: content,
+					message: new AIMessage({
+						content,
+						tool_calls: toolCalls,
+						response_metadata: { citations },
+					}),
 				},
 			],
 			llmOutput: {
 				usage: response.usage,
-				conversation_id: response.conversation?.id,
+				conversation_id: response.conversation?.id || response.conversation_id,
+				citations,
 			},
 		};
 	}
@@ -117,6 +680,33 @@ class UpstageDocumentChatModel extends BaseChatModel {
 		console.log('🚀 _streamResponseChunks called (streaming)');
 		console.log('📨 Messages count:', messages.length);
 		console.log('🔍 First message:', messages[0]);
+
+		// Tool calls need the complete answer, so tool turns are not streamed
+		if (options?.tools?.length) {
+			const result = await this.generateWithTools(
+				messages,
+				options.tools,
+				options?.signal
+			);
+			const message = result.generations[0].message as AIMessage;
+			yield new ChatGenerationChunk({
+				text: result.generations[0].text,
+				message: new AIMessageChunk({
+					content: message.content,
+					tool_call_chunks: (message.tool_calls ?? []).map(
+						(toolCall, index) => ({
+							id: toolCall.id,
+							name: toolCall.name,
+							args: JSON.stringify(toolCall.args),
+							index,
+							type: 'tool_call_chunk' as const,
+						})
+					),
+				}),
+				generationInfo: result.llmOutput,
+			});
+			return;
+		}
 		console.log('🔄 Starting SSE stream parsing...');
 
 		const response = await this.callDocumentChatAPI(messages, true, options?.signal);
@@ -135,6 +725,8 @@ class UpstageDocumentChatModel extends BaseChatModel {
 		let chunkCount = 0;
 		let reasoningStarted = false;
 		let outputStarted = false;
+		let outputText = '';
+		const annotations: any[] = [];
 
 		try {
 			while (true) {
@@ -166,6 +758,12 @@ class UpstageDocumentChatModel extends BaseChatModel {
 						const data = JSON.parse(jsonStr);
 						console.log('📦 Parsed data type:', data.type);
 
+						this.rememberConversation(
+							data.conversation?.id ||
+								data.conversation_id ||
+								data.response?.conversation?.id
+						);
+
 						// Extract delta text from Document Chat events
 						let deltaText = '';
 
@@ -177,8 +775,16 @@ class UpstageDocumentChatModel extends BaseChatModel {
 							outputStarted = true;
 						}
 						deltaText += data.delta;
+						outputText += data.delta;
 						console.log('📝 Output delta:', data.delta.substring(0, 50));
 					}
+					// Collect citations, they are sent after the text they refer to
+					else if (
+						data.type === 'response.output_text.annotation.added' &&
+						data.annotation
+					) {
+						annotations.push(data.annotation);
+					}
 					// Handle reasoning text (wrapped in <think> tags)
 					else if (data.type === 'response.reasoning_summary_text.delta' && data.delta) {
 						// Start reasoning section on first reasoning delta
@@ -228,6 +834,36 @@ class UpstageDocumentChatModel extends BaseChatModel {
 					}
 				}
 			}
+
+			// The streamed text cannot be changed anymore, so footnotes are appended
+			if (annotations.length > 0) {
+				const citations = getResponseCitations({
+					output: [
+						{
+							type: 'message',
+							content: [{ type: 'output_text', text: outputText, annotations }],
+						},
+					],
+				});
+				const footnotes = this.config.inlineCitations
+					? addCitationFootnotes(
+							'',
+							citations.map(({ startIndex, endIndex, ...citation }) => citation)
+						)
+					: '';
+
+				if (footnotes && runManager) {
+					await runManager.handleLLMNewToken(footnotes);
+				}
+				yield new ChatGenerationChunk({
+					text: footnotes,
+					message: new AIMessageChunk({
+						content: footnotes,
+						response_metadata: { citations },
+					}),
+					generationInfo: { citations },
+				});
+			}
 		} finally {
 			reader.releaseLock();
 			console.log('🔒 Stream reader released');
@@ -241,65 +877,60 @@ class UpstageDocumentChatModel extends BaseChatModel {
 		messages: BaseMessage[],
 		stream: boolean,
 		signal?: AbortSignal,
+		tools?: ResponsesFunctionTool[]
 	): Promise<any> {
 		console.log('🌐 callDocumentChatAPI called');
 		console.log('📊 Stream mode:', stream);
 
-		// Extract query from last message
-		const lastMessage = messages[messages.length - 1];
-		let query = '';
-
-		if (typeof lastMessage.content === 'string') {
-			query = lastMessage.content;
-		} else if (Array.isArray(lastMessage.content)) {
-			const textContent = (lastMessage.content as any[]).find(
-				(c: any) => c.type === 'text' || typeof c === 'string'
-			);
-			query = typeof textContent === 'string'
-				? textContent
-				: (textContent as any)?.text || '';
-		}
-
-		console.log('📝 Query extracted (first 100 chars):', query.substring(0, 100));
-
 		// Build Document Chat request
-		const content = [
-			...this.config.fileIds.map(fileId => ({
-				type: 'input_file' as const,
-				file_id: fileId,
-			})),
+		// In auto mode, a known or captured conversation ID is continued on the server
+		const { conversationMode, conversationId } = this.config;
+		const serverConversation =
+			conversationMode === 'server' ||
+			(conversationMode === 'auto' && !!conversationId);
+		const { instructions, input } = toResponsesInput(
+			messages,
+			await this.getFileIds(),
 			{
-				type: 'input_text' as const,
-				text: query,
-			},
-		];
+				fullHistory: !serverConversation,
+				nativeTools: !!tools?.length,
+			}
+		);
+
+		console.log('📝 Input items:', input.length);
 
 		const requestBody: any = {
 			model: this.config.model,
 			stream,
-			input: [
-				{
-					role: 'user',
-					content,
-				},
-			],
+			input,
 			reasoning: {
 				effort: this.config.reasoningEffort as 'low' | 'medium' | 'high',
-				summary: this.config.reasoningSummary as 'auto' | 'enabled' | 'disabled',
+				summary: this.config.reasoningSummary as
+					| 'auto'
+					| 'enabled'
+					| 'disabled',
 			},
 		};
 
-		if (this.config.conversationId) {
-			requestBody.conversation = { id: this.config.conversationId };
+		if (instructions) {
+			requestBody.instructions = instructions;
+		}
+
+		if (serverConversation && conversationId) {
+			requestBody.conversation = { id: conversationId };
 		}
 
 		if (this.config.temperature !== undefined) {
 			requestBody.temperature = this.config.temperature;
 		}
 
+		if (tools?.length) {
+			requestBody.tools = tools;
+		}
+
 		console.log('📤 Request body:', JSON.stringify(requestBody, null, 2));
 
-		const url = 'https://api.upstage.ai/v1/document-chat/responses';
+		const url = `${this.config.baseUrl}/document-chat/responses`;
 		console.log('🌐 Calling endpoint:', url);
 
 		try {
@@ -381,7 +1012,8 @@ export class DocumentChatModelUpstage implements INodeType {
 		],
 		requestDefaults: {
 			ignoreHttpStatusErrors: true,
-			baseURL: 'https://api.upstage.ai/v1',
+			baseURL:
+				'={{($credentials.baseUrl || "").trim().replace(/\\/+$/, "") || "https://api.upstage.ai/v1"}}',
 		},
 		properties: [
 			getConnectionHintNoticeField(['ai_chain', 'ai_agent']),
@@ -404,21 +1036,85 @@ export class DocumentChatModelUpstage implements INodeType {
 				default: 'genius',
 				description: 'The Document Chat model to use',
 			},
+			{
+				displayName: 'File Source',
+				name: 'fileSource',
+				type: 'options',
+				options: [
+					{
+						name: 'File IDs',
+						value: 'fileIds',
+						description: 'Files uploaded earlier with the Document Chat node',
+					},
+					{
+						name: 'Binary Files',
+						value: 'binary',
+						description:
+							'Upload binary files of the input item when the model is first used',
+					},
+					{
+						name: 'URLs',
+						value: 'url',
+						description:
+							'Download files from URLs and upload them when the model is first used',
+					},
+				],
+				default: 'fileIds',
+				description: 'Where the documents to chat with come from',
+			},
 			{
 				displayName: 'File IDs',
 				name: 'fileIds',
 				type: 'string',
 				default: '',
 				required: true,
+				displayOptions: {
+					show: {
+						fileSource: ['fileIds'],
+					},
+				},
 				description: 'Comma-separated list of uploaded file IDs to chat with. Upload files first using the Document Chat node.',
 				placeholder: 'file-abc123, file-def456',
 			},
+			{
+				displayName: 'Input Binary Fields',
+				name: 'binaryPropertyNames',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						fileSource: ['binary'],
+					},
+				},
+				description:
+					'Comma-separated names of the binary properties that contain the files. Uploaded files are cached by content, so unchanged files are only uploaded once.',
+			},
+			{
+				displayName: 'File URLs',
+				name: 'fileUrls',
+				type: 'string',
+				typeOptions: {
+					rows: 2,
+				},
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						fileSource: ['url'],
+					},
+				},
+				description:
+					'URLs of the files to chat with, separated by commas or new lines. Uploaded files are cached by content, so unchanged files are only uploaded once.',
+				placeholder: 'https://example.com/report.pdf',
+			},
 			{
 				displayName: 'Conversation ID',
 				name: 'conversationId',
 				type: 'string',
 				default: '',
-				description: 'Optional: Continue an existing conversation by providing the conversation ID',
+				description:
+					'Optional: Continue an existing conversation by providing the conversation ID. Not used when the conversation mode is Send Full History.',
 				placeholder: 'conv-abc123',
 			},
 			{
@@ -429,6 +1125,56 @@ export class DocumentChatModelUpstage implements INodeType {
 				type: 'collection',
 				default: {},
 				options: [
+					{
+						displayName: 'Conversation Mode',
+						name: 'conversationMode',
+						type: 'options',
+						options: [
+							{
+								name: 'Automatic',
+								value: 'auto',
+								description:
+									'Send the full history until the API returns a conversation ID, then continue that conversation with only the new messages',
+							},
+							{
+								name: 'Send Full History',
+								value: 'stateless',
+								description:
+									'Send the system prompt and all previous messages with every request',
+							},
+							{
+								name: 'Server-Side Conversation',
+								value: 'server',
+								description:
+									'Send only the new message and let the API keep the history of the conversation ID',
+							},
+						],
+						default: 'auto',
+						description:
+							'How the chat history reaches the model. Automatic continues the given or stored conversation ID right away.',
+					},
+					{
+						displayName: 'File Processing Timeout',
+						name: 'fileProcessingTimeout',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 300,
+						description:
+							'Maximum number of seconds to wait for uploaded files to be processed',
+						displayOptions: {
+							hide: {
+								'/fileSource': ['fileIds'],
+							},
+						},
+					},
+					{
+						displayName: 'Inline Citations',
+						name: 'inlineCitations',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add numbered footnotes with the cited file, page and quote to the answer. The citations are always included in the response metadata.',
+					},
 					{
 						displayName: 'Reasoning Effort',
 						name: 'reasoningEffort',
@@ -480,6 +1226,14 @@ export class DocumentChatModelUpstage implements INodeType {
 							'Controls randomness: Lowering results in less random completions. As the temperature approaches zero, the model will become deterministic and repetitive.',
 						type: 'number',
 					},
+					{
+						displayName: 'Session ID',
+						name: 'sessionId',
+						type: 'string',
+						default: '={{ $json.sessionId }}',
+						description:
+							'Key to remember the conversation ID under, e.g. the session ID of a Chat Trigger. The mapping is kept in the workflow static data, so later executions of the same session continue the server-side conversation.',
+					},
 					{
 						displayName: 'Streaming',
 						name: 'streaming',
@@ -487,6 +1241,33 @@ export class DocumentChatModelUpstage implements INodeType {
 						description: 'Whether to stream the response',
 						type: 'boolean',
 					},
+					{
+						displayName: 'Tool Calling',
+						name: 'toolCalling',
+						type: 'options',
+						options: [
+							{
+								name: 'Auto',
+								value: 'auto',
+								description:
+									'Send tools in the request and switch to prompt-based calling if the API rejects them',
+							},
+							{
+								name: 'Native',
+								value: 'native',
+								description: 'Always send tools in the request',
+							},
+							{
+								name: 'Prompt-Based (ReAct)',
+								value: 'prompt',
+								description:
+									'Describe the tools in the prompt and parse tool calls from the answer',
+							},
+						],
+						default: 'auto',
+						description:
+							'How tools connected to an AI agent are passed to the model',
+					},
 				],
 			},
 		],
@@ -501,32 +1282,52 @@ export class DocumentChatModelUpstage implements INodeType {
 		const credentials = await this.getCredentials('upstageApi');
 
 		const model = this.getNodeParameter('model', itemIndex) as string;
-		const fileIds = this.getNodeParameter('fileIds', itemIndex) as string;
-		const conversationId = this.getNodeParameter('conversationId', itemIndex, '') as string;
+		const fileSource = this.getNodeParameter(
+			'fileSource',
+			itemIndex,
+			'fileIds'
+		) as FileSource;
+		const fileIds =
+			fileSource === 'fileIds'
+				? (this.getNodeParameter('fileIds', itemIndex) as string)
+				: '';
+		const conversationId = this.getNodeParameter(
+			'conversationId',
+			itemIndex,
+			''
+		) as string;
 
 		const options = this.getNodeParameter('options', itemIndex, {}) as {
 			reasoningEffort?: string;
 			reasoningSummary?: string;
 			temperature?: number;
 			streaming?: boolean;
+			toolCalling?: ToolCallingMode;
+			conversationMode?: ConversationMode;
+			sessionId?: string;
+			fileProcessingTimeout?: number;
+			inlineCitations?: boolean;
 		};
 
 		console.log('📋 Node parameters:', {
 			model,
+			fileSource,
 			fileIds,
 			conversationId,
 			options,
 		});
 
 		// Validate file IDs
-		if (!fileIds || fileIds.trim() === '') {
-			throw new Error('File IDs are required. Please upload files first using the Document Chat node.');
+		if (fileSource === 'fileIds' && (!fileIds || fileIds.trim() === '')) {
+			throw new Error(
+				'File IDs are required. Upload files first using the Document Chat node, or set File Source to Binary Files or URLs.'
+			);
 		}
 
 		// Parse file IDs
-		const fileIdArray = fileIds.split(',').map(id => id.trim()).filter(id => id);
+		const fileIdArray = parseFileIds(fileIds);
 
-		if (fileIdArray.length === 0) {
+		if (fileSource === 'fileIds' && fileIdArray.length === 0) {
 			throw new Error('At least one valid file ID is required.');
 		}
 
@@ -565,16 +1366,48 @@ export class DocumentChatModelUpstage implements INodeType {
 			tokensUsageParser: documentChatTokensParser,
 		});
 
+		// Conversations of earlier executions, keyed by session ID
+		const sessionId = options.sessionId?.toString().trim();
+		let conversations: IDataObject | undefined;
+		if (sessionId) {
+			const staticData = this.getWorkflowStaticData('node');
+			staticData.conversations ??= {};
+			conversations = staticData.conversations as IDataObject;
+		}
+		const storedConversationId =
+			sessionId && conversations
+				? (conversations[sessionId] as string | undefined)
+				: undefined;
+
 		// Build Document Chat configuration
 		const documentChatConfig: DocumentChatConfig = {
 			apiKey: credentials.apiKey as string,
+			baseUrl: getBaseUrl(credentials),
 			model: model,
 			fileIds: fileIdArray,
-			conversationId: conversationId || undefined,
+			resolveFileIds:
+				fileSource === 'fileIds'
+					? undefined
+					: async () =>
+							await uploadInlineFiles(
+								this,
+								itemIndex,
+								fileSource,
+								options.fileProcessingTimeout ?? 300
+							),
+			conversationId: storedConversationId || conversationId || undefined,
 			reasoningEffort: options.reasoningEffort || 'medium',
 			reasoningSummary: options.reasoningSummary || 'auto',
 			temperature: options.temperature,
 			streaming: options.streaming || false,
+			inlineCitations: options.inlineCitations || false,
+			toolCalling: options.toolCalling || 'auto',
+			conversationMode: options.conversationMode || 'auto',
+			onConversationId:
+				sessionId && conversations
+					? newConversationId =>
+							setStoredEntry(conversations, sessionId, newConversationId)
+					: undefined,
 		};
 
 		// Build model params with tracing
@@ -585,11 +1418,21 @@ export class DocumentChatModelUpstage implements INodeType {
 		// Create Document Chat model
 		const chatModel = new UpstageDocumentChatModel(documentChatConfig, modelParams);
 
-		console.log(`✅ Document Chat Model initialized with ${fileIdArray.length} file(s)`);
-		console.log(`📄 File IDs: ${fileIdArray.join(', ')}`);
+		if (fileSource === 'fileIds') {
+			console.log(
+				`✅ Document Chat Model initialized with ${fileIdArray.length} file(s)`
+			);
+			console.log(`📄 File IDs: ${fileIdArray.join(', ')}`);
+		} else {
+			console.log(
+				`✅ Document Chat Model initialized, files are uploaded on first use (${fileSource})`
+			);
+		}
 		console.log(`🔄 Streaming: ${options.streaming || false}`);
-		if (conversationId) {
-			console.log(`💬 Continuing conversation: ${conversationId}`);
+		if (documentChatConfig.conversationId) {
+			console.log(
+				`💬 Continuing conversation: ${documentChatConfig.conversationId}`
+			);
 		}
 
 		return {
@@ -0,0 +1,195 @@
+import { DynamicTool } from '@langchain/core/tools';
+import type {
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	IDataObject,
+	SupplyData,
+} from 'n8n-workflow';
+import { NodeOperationError, nodeNameToToolName } from 'n8n-workflow';
+
+import {
+	buildDocumentChatInput,
+	getResponseCitations,
+	getResponseText,
+	parseFileIds,
+} from '../../utils/documentChat';
+import { logWrapper } from '../../utils/logWrapper';
+import { getConnectionHintNoticeField } from '../../utils/sharedFields';
+import { UpstageClient } from '../../utils/UpstageClient';
+
+export class DocumentChatToolUpstage implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Upstage Document Chat Tool',
+		name: 'documentChatToolUpstage',
+		icon: 'file:upstage_v2.svg',
+		group: ['transform'],
+		version: 1,
+		description:
+			'Let an AI agent ask questions about uploaded documents with Upstage Document Chat',
+		defaults: {
+			name: 'Ask Documents',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Tools'],
+				Tools: ['Other Tools'],
+			},
+			resources: {
+				primaryDocumentation: [
+					{
+						url: 'https://console.upstage.ai/docs/capabilities/document-chat',
+					},
+				],
+			},
+		},
+		inputs: [],
+		outputs: ['ai_tool'],
+		outputNames: ['Tool'],
+		credentials: [
+			{
+				name: 'upstageApi',
+				required: true,
+			},
+		],
+		properties: [
+			getConnectionHintNoticeField(['ai_agent']),
+			{
+				displayName: 'Description',
+				name: 'toolDescription',
+				type: 'string',
+				default:
+					'Answers questions about the uploaded documents and cites the pages it used. Input should be a self-contained question.',
+				typeOptions: {
+					rows: 3,
+				},
+				description:
+					'Explain to the agent what the documents contain and when it should use this tool',
+			},
+			{
+				displayName: 'Model',
+				name: 'model',
+				type: 'options',
+				options: [
+					{
+						name: 'Genius',
+						value: 'genius',
+						description: 'Best for most users - balanced performance',
+					},
+					{
+						name: 'Turbo',
+						value: 'turbo',
+						description: 'Optimized for speed',
+					},
+				],
+				default: 'genius',
+				description: 'The Document Chat model to use',
+			},
+			{
+				displayName: 'File IDs',
+				name: 'fileIds',
+				type: 'string',
+				default: '',
+				required: true,
+				description:
+					'Comma-separated list of uploaded file IDs to answer from. Upload files first using the Document Chat node.',
+				placeholder: 'file-abc123, file-def456',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				placeholder: 'Add Option',
+				description: 'Additional options to add',
+				type: 'collection',
+				default: {},
+				options: [
+					{
+						displayName: 'Reasoning Effort',
+						name: 'reasoningEffort',
+						type: 'options',
+						options: [
+							{
+								name: 'Low',
+								value: 'low',
+							},
+							{
+								name: 'Medium',
+								value: 'medium',
+							},
+							{
+								name: 'High',
+								value: 'high',
+							},
+						],
+						default: 'low',
+						description: 'The reasoning effort level for document analysis',
+					},
+					{
+						displayName: 'Include Citations',
+						name: 'includeCitations',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to return the file, page and quoted text the answer is based on',
+					},
+				],
+			},
+		],
+	};
+
+	async supplyData(
+		this: ISupplyDataFunctions,
+		itemIndex: number
+	): Promise<SupplyData> {
+		this.logger.debug('Supply data for Upstage document chat tool');
+
+		const model = this.getNodeParameter('model', itemIndex) as string;
+		const fileIds = parseFileIds(
+			this.getNodeParameter('fileIds', itemIndex) as string
+		);
+		const options = this.getNodeParameter('options', itemIndex, {}) as {
+			reasoningEffort?: string;
+			includeCitations?: boolean;
+		};
+
+		if (fileIds.length === 0) {
+			throw new NodeOperationError(
+				this.getNode(),
+				'At least one file ID is required. Upload files first using the Document Chat node.',
+				{ itemIndex }
+			);
+		}
+
+		const client = await UpstageClient.create(this);
+
+		const tool = new DynamicTool({
+			name: nodeNameToToolName(this.getNode()),
+			description: this.getNodeParameter(
+				'toolDescription',
+				itemIndex
+			) as string,
+			func: async (query: string): Promise<string> => {
+				const response = await client.createDocumentChatResponse({
+					model,
+					stream: false,
+					input: [buildDocumentChatInput(fileIds, query)],
+					reasoning: {
+						effort: options.reasoningEffort ?? 'low',
+						summary: 'disabled',
+					},
+				});
+
+				const result: IDataObject = { answer: getResponseText(response) };
+				if (options.includeCitations ?? true) {
+					result.citations = getResponseCitations(response) as IDataObject[];
+				}
+				return JSON.stringify(result);
+			},
+		});
+
+		return {
+			response: logWrapper(tool, this),
+		};
+	}
+}
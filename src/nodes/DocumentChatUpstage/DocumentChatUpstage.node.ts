@@ -3,50 +3,28 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 	IDataObject,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-// Helper function to create multipart/form-data without external dependencies
-function createMultipartFormData(
-	fields: Record<string, string>,
-	file: { buffer: Buffer; filename: string; contentType: string }
-): { body: Buffer; contentType: string } {
-	const boundary =
-		'----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-	const parts: Buffer[] = [];
-
-	// Add text fields
-	for (const [name, value] of Object.entries(fields)) {
-		parts.push(
-			Buffer.from(
-				`--${boundary}\r\n` +
-					`Content-Disposition: form-data; name="${name}"\r\n\r\n` +
-					`${value}\r\n`
-			)
-		);
-	}
-
-	// Add file
-	parts.push(
-		Buffer.from(
-			`--${boundary}\r\n` +
-				`Content-Disposition: form-data; name="file"; filename="${file.filename}"\r\n` +
-				`Content-Type: ${file.contentType}\r\n\r\n`
-		)
-	);
-	parts.push(file.buffer);
-	parts.push(Buffer.from('\r\n'));
-
-	// End boundary
-	parts.push(Buffer.from(`--${boundary}--\r\n`));
-
-	return {
-		body: Buffer.concat(parts),
-		contentType: `multipart/form-data; boundary=${boundary}`,
-	};
-}
+import {
+	UpstageApiError,
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import {
+	addCitationFootnotes,
+	aggregateDocumentChatStream,
+	getResponseCitations,
+	getResponseReasoning,
+	getResponseText,
+	waitForDocumentChatFile,
+} from '../../utils/documentChat';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+
+// Files requested per page when listing
+const LIST_PAGE_SIZE = 100;
 
 export class DocumentChatUpstage implements INodeType {
 	description: INodeTypeDescription = {
@@ -86,6 +64,18 @@ export class DocumentChatUpstage implements INodeType {
 						description: 'Check file processing status and retrieve details',
 						action: 'Retrieve a file',
 					},
+					{
+						name: 'List Files',
+						value: 'listFiles',
+						description: 'List uploaded documents',
+						action: 'List files',
+					},
+					{
+						name: 'Delete File',
+						value: 'deleteFile',
+						description: 'Delete an uploaded document',
+						action: 'Delete a file',
+					},
 					{
 						name: 'Get Response',
 						value: 'getResponse',
@@ -110,6 +100,48 @@ export class DocumentChatUpstage implements INodeType {
 				},
 				description: 'Name of the binary property containing the file to upload',
 			},
+			{
+				displayName: 'Wait Until Ready',
+				name: 'waitUntilReady',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['uploadFile'],
+					},
+				},
+				description:
+					'Whether to wait until the file is processed and can be used in Get Response before returning',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 2,
+				description: 'How often to check whether the file has been processed',
+				displayOptions: {
+					show: {
+						operation: ['uploadFile'],
+						waitUntilReady: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'waitTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 300,
+				description:
+					'Maximum time to wait for the file to be processed before failing',
+				displayOptions: {
+					show: {
+						operation: ['uploadFile'],
+						waitUntilReady: [true],
+					},
+				},
+			},
 
 			// Retrieve File operation fields
 			{
@@ -120,10 +152,10 @@ export class DocumentChatUpstage implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
-						operation: ['retrieveFile'],
+						operation: ['retrieveFile', 'deleteFile'],
 					},
 				},
-				description: 'The ID of the file to retrieve',
+				description: 'The ID of the uploaded file',
 			},
 			{
 				displayName: 'Options',
@@ -165,6 +197,37 @@ export class DocumentChatUpstage implements INodeType {
 				],
 			},
 
+			// List Files operation fields
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['listFiles'],
+					},
+				},
+				description:
+					'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				displayOptions: {
+					show: {
+						operation: ['listFiles'],
+						returnAll: [false],
+					},
+				},
+				description: 'Max number of results to return',
+			},
+
 			// Get Response operation fields
 			{
 				displayName: 'Model',
@@ -238,12 +301,29 @@ export class DocumentChatUpstage implements INodeType {
 						default: '',
 						description: 'Continue an existing conversation by providing the conversation ID',
 					},
+					{
+						displayName: 'Delete After Response',
+						name: 'deleteAfterResponse',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to delete the files after the request, also when it fails, so one-off documents do not stay in the account. Files that could not be deleted are listed in delete_errors.',
+					},
+					{
+						displayName: 'Inline Citations',
+						name: 'inlineCitations',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add numbered footnotes with the cited file, page and quote to the content. The citations are always returned in the citations field.',
+					},
 					{
 						displayName: 'Stream',
 						name: 'stream',
 						type: 'boolean',
 						default: false,
-						description: 'Whether to stream the response',
+						description:
+							'Whether to stream the response. The streamed events are combined into the same output as a regular response.',
 					},
 					{
 						displayName: 'Reasoning',
@@ -303,12 +383,17 @@ export class DocumentChatUpstage implements INodeType {
 					},
 				],
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 		const operation = this.getNodeParameter('operation', 0) as string;
 
 		for (let i = 0; i < items.length; i++) {
@@ -329,34 +414,35 @@ export class DocumentChatUpstage implements INodeType {
 					// Get the file buffer
 					const fileBuffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
 
-					// Prepare form data using helper function
-					const { body, contentType } = createMultipartFormData(
+					// Make upload request
+					let response = (await client.uploadDocumentChatFile(
 						{ purpose: 'user_data' },
 						{
 							buffer: fileBuffer,
 							filename: binaryData.fileName || 'document',
 							contentType: binaryData.mimeType || 'application/octet-stream',
 						}
-					);
-
-					// Make upload request
-					const requestOptions: IHttpRequestOptions = {
-						method: 'POST',
-						url: 'https://api.upstage.ai/v1/document-chat/files',
-						body,
-						headers: {
-							'Content-Type': contentType,
-						},
-					};
+					)) as IDataObject;
 
-					const response = await this.helpers.httpRequestWithAuthentication.call(
-						this,
-						'upstageApi',
-						requestOptions
-					);
+					// Only emit the file once it can be chatted with
+					if (this.getNodeParameter('waitUntilReady', i, false) as boolean) {
+						const file = await waitForDocumentChatFile(
+							client,
+							response.id as string,
+							{
+								pollInterval: this.getNodeParameter(
+									'pollInterval',
+									i,
+									2
+								) as number,
+								timeout: this.getNodeParameter('waitTimeout', i, 300) as number,
+							}
+						);
+						response = { ...response, ...file };
+					}
 
 					returnData.push({
-						json: response as IDataObject,
+						json: response,
 						pairedItem: { item: i },
 					});
 
@@ -369,30 +455,65 @@ export class DocumentChatUpstage implements INodeType {
 					};
 
 					// Build query parameters
-					const queryParams = new URLSearchParams();
+					const qs: IDataObject = {};
 					if (retrieveOptions.pages) {
-						queryParams.append('pages', retrieveOptions.pages);
+						qs.pages = retrieveOptions.pages;
 					}
 					if (retrieveOptions.view) {
-						queryParams.append('view', retrieveOptions.view);
+						qs.view = retrieveOptions.view;
 					}
 
-					const queryString = queryParams.toString();
-					const url = `https://api.upstage.ai/v1/document-chat/files/${fileId}${queryString ? '?' + queryString : ''}`;
+					const response = await client.getDocumentChatFile(fileId, qs);
 
-					const requestOptions: IHttpRequestOptions = {
-						method: 'GET',
-						url,
-					};
+					returnData.push({
+						json: response as IDataObject,
+						pairedItem: { item: i },
+					});
 
-					const response = await this.helpers.httpRequestWithAuthentication.call(
-						this,
-						'upstageApi',
-						requestOptions
+				} else if (operation === 'listFiles') {
+					// List Files operation
+					const returnAll = this.getNodeParameter('returnAll', i) as boolean;
+					const limit = returnAll
+						? Infinity
+						: (this.getNodeParameter('limit', i) as number);
+
+					const files: IDataObject[] = [];
+					let after: string | undefined;
+					do {
+						const qs: IDataObject = {
+							limit: Math.min(limit - files.length, LIST_PAGE_SIZE),
+						};
+						if (after) qs.after = after;
+
+						const response = await client.listDocumentChatFiles(qs);
+						const page: IDataObject[] = Array.isArray(response)
+							? response
+							: (response?.data ?? response?.files ?? []);
+						files.push(...page);
+
+						after =
+							response?.has_more && page.length > 0
+								? ((response.last_id ?? page[page.length - 1].id) as string)
+								: undefined;
+					} while (after && files.length < limit);
+
+					returnData.push(
+						...files.slice(0, limit).map(file => ({
+							json: file,
+							pairedItem: { item: i },
+						}))
 					);
+				} else if (operation === 'deleteFile') {
+					// Delete File operation
+					const fileId = this.getNodeParameter('fileId', i) as string;
+					const response = await client.deleteDocumentChatFile(fileId);
 
 					returnData.push({
-						json: response as IDataObject,
+						json: {
+							id: fileId,
+							deleted: true,
+							...(response as IDataObject),
+						},
 						pairedItem: { item: i },
 					});
 
@@ -403,6 +524,8 @@ export class DocumentChatUpstage implements INodeType {
 					const query = this.getNodeParameter('query', i) as string;
 					const responseOptions = this.getNodeParameter('responseOptions', i, {}) as {
 						conversationId?: string;
+						deleteAfterResponse?: boolean;
+						inlineCitations?: boolean;
 						stream?: boolean;
 						reasoning?: {
 							settings?: Array<{
@@ -465,29 +588,53 @@ export class DocumentChatUpstage implements INodeType {
 						};
 					}
 
-					const requestOptions: IHttpRequestOptions = {
-						method: 'POST',
-						url: 'https://api.upstage.ai/v1/document-chat/responses',
-						body: requestBody,
-						json: true,
-					};
-
-					const response = await this.helpers.httpRequestWithAuthentication.call(
-						this,
-						'upstageApi',
-						requestOptions
-					);
+					const deletedFiles: string[] = [];
+					const deleteErrors: IDataObject[] = [];
+					let response: any;
+					try {
+						response = requestBody.stream
+							? await aggregateDocumentChatStream(
+									await client.streamDocumentChatResponse(requestBody)
+								)
+							: await client.createDocumentChatResponse(requestBody);
+					} finally {
+						// Remove one-off documents, also when no answer could be generated.
+						// A failed delete is reported in the output instead of failing the item.
+						if (responseOptions.deleteAfterResponse) {
+							for (const fileId of fileIdArray) {
+								try {
+									await client.deleteDocumentChatFile(fileId);
+									deletedFiles.push(fileId);
+								} catch (error) {
+									deleteErrors.push({
+										file_id: fileId,
+										...getErrorOutput(error),
+									});
+								}
+							}
+						}
+					}
 
 					// Extract the main content from the response
-					const output = response.output || [];
-					const messageOutput = output.find((item: any) => item.type === 'message');
-					const content_text = messageOutput?.content?.[0]?.text || '';
+					const citations = getResponseCitations(response);
+					const content_text = responseOptions.inlineCitations
+						? addCitationFootnotes(getResponseText(response), citations)
+						: getResponseText(response);
+					const reasoningSummary = getResponseReasoning(response);
 
 					returnData.push({
 						json: {
 							content: content_text,
+							...(reasoningSummary
+								? { reasoning_summary: reasoningSummary }
+								: {}),
+							citations,
+							usage: response.usage,
 							conversation_id: response.conversation?.id,
 							query,
+							...(responseOptions.deleteAfterResponse
+								? { deleted_files: deletedFiles, delete_errors: deleteErrors }
+								: {}),
 							full_response: response,
 						} as IDataObject,
 						pairedItem: { item: i },
@@ -507,13 +654,13 @@ export class DocumentChatUpstage implements INodeType {
 				if (this.continueOnFail()) {
 					returnData.push({
 						json: {
-							error: errorMessage,
-							error_code: (error as any)?.code || 'unknown_error',
+							...getErrorOutput(error),
 							operation,
-							timestamp: new Date().toISOString(),
-						} as IDataObject,
+						},
 						pairedItem: { item: i },
 					});
+				} else if (error instanceof UpstageApiError) {
+					throw error;
 				} else {
 					throw new NodeOperationError(
 						this.getNode(),
@@ -3,9 +3,15 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
 
+import {
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+
 export class DocumentClassificationUpstage implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Upstage Document Classification',
@@ -137,12 +143,17 @@ export class DocumentClassificationUpstage implements INodeType {
 				default: 'classification',
 				description: 'What to return from the node',
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -266,20 +277,7 @@ export class DocumentClassificationUpstage implements INodeType {
 					},
 				};
 
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: 'https://api.upstage.ai/v1/document-classification',
-					body: requestBody,
-					headers: {
-						'Content-Type': 'application/json',
-					},
-				};
-
-				const response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'upstageApi',
-					requestOptions
-				);
+				const response = await client.classifyDocument(requestBody);
 
 				// Process response based on return mode
 				if (returnMode === 'classification') {
@@ -303,7 +301,7 @@ export class DocumentClassificationUpstage implements INodeType {
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: (error as Error).message || 'Unknown error' },
+						json: getErrorOutput(error),
 						pairedItem: { item: i },
 					});
 				} else {
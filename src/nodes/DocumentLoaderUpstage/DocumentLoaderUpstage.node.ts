@@ -0,0 +1,355 @@
+import type {
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	SupplyData,
+} from 'n8n-workflow';
+import { BINARY_ENCODING } from 'n8n-workflow';
+
+import { logWrapper } from '../../utils/logWrapper';
+import { getConnectionHintNoticeField } from '../../utils/sharedFields';
+
+export class DocumentLoaderUpstage implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Upstage Document Loader',
+		name: 'documentLoaderUpstage',
+		icon: 'file:upstage_v2.svg',
+		group: ['transform'],
+		version: 1,
+		description:
+			'Load binary documents as LangChain documents using Upstage Document Parse',
+		defaults: {
+			name: 'Upstage Document Loader',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Document Loaders'],
+			},
+			resources: {
+				primaryDocumentation: [
+					{
+						url: 'https://console.upstage.ai/docs/capabilities/document-digitization/document-parsing',
+					},
+				],
+			},
+		},
+		inputs: [],
+		outputs: ['ai_document'],
+		outputNames: ['Document'],
+		credentials: [
+			{
+				name: 'upstageApi',
+				required: true,
+			},
+		],
+		properties: [
+			getConnectionHintNoticeField(['ai_vectorStore']),
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				placeholder: 'e.g. data, document, file',
+				description:
+					'Name of the input item binary property that contains the file',
+				required: true,
+			},
+			{
+				displayName: 'Model',
+				name: 'model',
+				type: 'options',
+				options: [
+					{ name: 'document-parse (recommended)', value: 'document-parse' },
+					{ name: 'document-parse-nightly', value: 'document-parse-nightly' },
+				],
+				default: 'document-parse',
+			},
+			{
+				displayName: 'Content Format',
+				name: 'outputFormat',
+				type: 'options',
+				options: [
+					{ name: 'Markdown', value: 'markdown' },
+					{ name: 'HTML', value: 'html' },
+					{ name: 'Text', value: 'text' },
+				],
+				default: 'markdown',
+				description: 'Format of the page content of the documents',
+			},
+			{
+				displayName: 'Split By',
+				name: 'splitMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Page',
+						value: 'page',
+						description: 'One document per page',
+					},
+					{
+						name: 'Element',
+						value: 'element',
+						description:
+							'One document per layout element (paragraph, table, heading, …)',
+					},
+					{
+						name: 'None',
+						value: 'none',
+						description: 'One document per file',
+					},
+				],
+				default: 'page',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				placeholder: 'Add Option',
+				description: 'Additional options to add',
+				type: 'collection',
+				default: {},
+				options: [
+					{
+						displayName: 'OCR',
+						name: 'ocr',
+						type: 'options',
+						options: [
+							{ name: 'Auto', value: 'auto' },
+							{ name: 'Force', value: 'force' },
+						],
+						default: 'auto',
+						description:
+							'Whether to perform OCR inference on the document before layout detection. Auto applies OCR only to image documents; Force always performs OCR.',
+					},
+					{
+						displayName: 'Include Coordinates',
+						name: 'includeCoordinates',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the bounding box coordinates of each element to the metadata (element split only)',
+					},
+					{
+						displayName: 'Exclude Categories',
+						name: 'excludeCategories',
+						type: 'multiOptions',
+						options: [
+							{ name: 'Header', value: 'header' },
+							{ name: 'Footer', value: 'footer' },
+							{ name: 'Footnote', value: 'footnote' },
+							{ name: 'Caption', value: 'caption' },
+							{ name: 'Figure', value: 'figure' },
+							{ name: 'Chart', value: 'chart' },
+						],
+						default: [],
+						description:
+							'Layout elements to leave out of the documents, e.g. running headers and footers',
+					},
+				],
+			},
+		],
+	};
+
+	async supplyData(
+		this: ISupplyDataFunctions,
+		itemIndex: number
+	): Promise<SupplyData> {
+		this.logger.debug('Supply data for Upstage document loader');
+
+		const options = this.getNodeParameter('options', itemIndex, {}) as {
+			ocr?: string;
+			includeCoordinates?: boolean;
+			excludeCategories?: string[];
+		};
+
+		const loader = new UpstageDocumentLoader(this, {
+			binaryPropertyName: this.getNodeParameter(
+				'binaryPropertyName',
+				itemIndex
+			) as string,
+			model: this.getNodeParameter('model', itemIndex) as string,
+			outputFormat: this.getNodeParameter(
+				'outputFormat',
+				itemIndex
+			) as ContentFormat,
+			splitMode: this.getNodeParameter('splitMode', itemIndex) as SplitMode,
+			ocr: options.ocr ?? 'auto',
+			includeCoordinates: options.includeCoordinates ?? false,
+			excludeCategories: options.excludeCategories ?? [],
+		});
+
+		return {
+			response: logWrapper(loader, this),
+		};
+	}
+}
+
+// Custom LangChain document loader backed by Upstage Document Parse
+import { BaseDocumentLoader } from '@langchain/core/document_loaders/base';
+import { Document } from '@langchain/core/documents';
+import type { BaseDocumentTransformer } from '@langchain/core/documents';
+import { UpstageClient } from '../../utils/UpstageClient';
+import {
+	groupElementsByPage,
+	joinElementContent,
+	type DocumentParsingResponse,
+} from '../../utils/documentParse';
+
+type ContentFormat = 'markdown' | 'html' | 'text';
+type SplitMode = 'page' | 'element' | 'none';
+
+interface UpstageDocumentLoaderOptions {
+	binaryPropertyName: string;
+	model: string;
+	outputFormat: ContentFormat;
+	splitMode: SplitMode;
+	ocr: string;
+	includeCoordinates: boolean;
+	excludeCategories: string[];
+}
+
+class UpstageDocumentLoader extends BaseDocumentLoader {
+	private client?: UpstageClient;
+
+	constructor(
+		private ctx: ISupplyDataFunctions,
+		private options: UpstageDocumentLoaderOptions
+	) {
+		super();
+	}
+
+	/**
+	 * Load the documents of every input item
+	 */
+	async load(): Promise<Document[]> {
+		return await this.loadItems(this.ctx.getInputData());
+	}
+
+	async loadAndSplit(splitter?: BaseDocumentTransformer): Promise<Document[]> {
+		const documents = await this.load();
+		return splitter ? await splitter.invoke(documents) : documents;
+	}
+
+	/**
+	 * Load the documents of the given items (same interface as n8n's own loaders)
+	 */
+	async processAll(items: INodeExecutionData[]): Promise<Document[]> {
+		return await this.loadItems(items);
+	}
+
+	async processItem(
+		item: INodeExecutionData,
+		itemIndex: number
+	): Promise<Document[]> {
+		return await this.loadItem(item, itemIndex);
+	}
+
+	private async loadItems(items: INodeExecutionData[]): Promise<Document[]> {
+		const documents: Document[] = [];
+		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			documents.push(...(await this.loadItem(items[itemIndex], itemIndex)));
+		}
+		return documents;
+	}
+
+	private async loadItem(
+		item: INodeExecutionData,
+		itemIndex: number
+	): Promise<Document[]> {
+		const { binaryPropertyName, model, outputFormat, ocr } = this.options;
+		const binaryData = item.binary?.[binaryPropertyName];
+		if (!binaryData) {
+			throw new Error(
+				`No binary data found in property "${binaryPropertyName}" of item ${itemIndex}.`
+			);
+		}
+
+		// Read the bytes from the given item, which is not necessarily the input item
+		// at the same index when a vector store passes its own items
+		const buffer = binaryData.id
+			? await this.ctx.helpers.binaryToBuffer(
+					await this.ctx.helpers.getBinaryStream(binaryData.id)
+				)
+			: Buffer.from(binaryData.data, BINARY_ENCODING);
+
+		this.client ??= await UpstageClient.create(this.ctx);
+		const response = (await this.client.digitizeDocument(
+			{
+				model,
+				ocr,
+				output_formats: JSON.stringify([outputFormat]),
+				coordinates: this.options.includeCoordinates.toString(),
+			},
+			{
+				buffer,
+				filename: binaryData.fileName || 'upload',
+				contentType: binaryData.mimeType || 'application/octet-stream',
+			}
+		)) as DocumentParsingResponse;
+
+		return this.toDocuments(response, binaryData.fileName || 'upload');
+	}
+
+	private toDocuments(
+		response: DocumentParsingResponse,
+		source: string
+	): Document[] {
+		const { outputFormat, splitMode, excludeCategories } = this.options;
+		const elements = (response?.elements ?? []).filter(
+			element => !excludeCategories.includes(element.category ?? '')
+		);
+		const baseMetadata = { source, model: response?.model };
+
+		if (splitMode === 'element') {
+			return elements
+				.filter(element => element.content?.[outputFormat])
+				.map(
+					element =>
+						new Document({
+							pageContent: element.content![outputFormat]!,
+							metadata: {
+								...baseMetadata,
+								id: element.id,
+								page: element.page,
+								category: element.category,
+								...(this.options.includeCoordinates && element.coordinates
+									? { coordinates: element.coordinates }
+									: {}),
+							},
+						})
+				);
+		}
+
+		if (splitMode === 'page') {
+			return groupElementsByPage(elements)
+				.map(
+					({ page, elements: pageElements }) =>
+						new Document({
+							pageContent: joinElementContent(pageElements)[outputFormat] ?? '',
+							metadata: {
+								...baseMetadata,
+								page,
+								categories: [
+									...new Set(pageElements.map(element => element.category)),
+								],
+							},
+						})
+				)
+				.filter(document => document.pageContent !== '');
+		}
+
+		// Without exclusions the API's own content is identical to joining the elements
+		const pageContent =
+			excludeCategories.length > 0
+				? joinElementContent(elements)[outputFormat]
+				: response?.content?.[outputFormat];
+		if (!pageContent) return [];
+		return [
+			new Document({
+				pageContent,
+				metadata: { ...baseMetadata, pages: response?.usage?.pages },
+			}),
+		];
+	}
+}
@@ -3,52 +3,68 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
 
+import {
+	UpstageApiError,
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+import { isPdf, splitPdfDocument, type PdfChunk } from '../../utils/pdf';
+
 // Response type definitions
 interface DocumentOCRResponse {
 	text?: string;
 	pages?: any[];
+	confidence?: number;
+	numBilledPages?: number;
+	metadata?: { pages?: any[] };
+	[key: string]: any;
 }
 
-// Helper function to create multipart/form-data without external dependencies
-function createMultipartFormData(
-	fields: Record<string, string>,
-	file: { buffer: Buffer; filename: string; contentType: string }
-): { body: Buffer; contentType: string } {
-	const boundary =
-		'----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-	const parts: Buffer[] = [];
-
-	// Add text fields
-	for (const [name, value] of Object.entries(fields)) {
-		parts.push(
-			Buffer.from(
-				`--${boundary}\r\n` +
-					`Content-Disposition: form-data; name="${name}"\r\n\r\n` +
-					`${value}\r\n`
-			)
-		);
-	}
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
 
-	// Add file
-	parts.push(
-		Buffer.from(
-			`--${boundary}\r\n` +
-				`Content-Disposition: form-data; name="document"; filename="${file.filename}"\r\n` +
-				`Content-Type: ${file.contentType}\r\n\r\n`
-		)
-	);
-	parts.push(file.buffer);
-	parts.push(Buffer.from('\r\n'));
+/**
+ * Combine the OCR results of several parts of a document.
+ * Pages get the page number of the original document in `page`.
+ */
+function mergeOcrResponses(
+	results: Array<{ pages: number[]; response: DocumentOCRResponse }>
+): DocumentOCRResponse {
+	const pages: any[] = [];
+	const metadataPages: any[] = [];
+	let confidenceSum = 0;
+	let numBilledPages = 0;
 
-	// End boundary
-	parts.push(Buffer.from(`--${boundary}--\r\n`));
+	for (const { pages: pageNumbers, response } of results) {
+		(response?.pages ?? []).forEach((page: any, index: number) => {
+			pages.push({
+				...page,
+				id: pages.length,
+				page: pageNumbers[index] ?? pages.length + 1,
+			});
+		});
+		(response?.metadata?.pages ?? []).forEach((page: any, index: number) => {
+			metadataPages.push({
+				...page,
+				page: pageNumbers[index] ?? page.page,
+			});
+		});
+		confidenceSum +=
+			(response?.confidence ?? 0) * (response?.pages?.length ?? 0);
+		numBilledPages += response?.numBilledPages ?? 0;
+	}
 
+	const first = results[0]?.response ?? {};
 	return {
-		body: Buffer.concat(parts),
-		contentType: `multipart/form-data; boundary=${boundary}`,
+		...first,
+		confidence: pages.length > 0 ? confidenceSum / pages.length : 0,
+		metadata: { ...first.metadata, pages: metadataPages },
+		numBilledPages,
+		pages,
+		text: results.map(({ response }) => response?.text ?? '').join('\n'),
 	};
 }
 
@@ -101,6 +117,24 @@ export class DocumentOCRUpstage implements INodeType {
 				description:
 					'Optional parameter that specifies the response format. If set, the output is converted to the format of the corresponding OCR API.',
 			},
+			{
+				displayName: 'Pages',
+				name: 'pages',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. 1-3,7',
+				description:
+					'Pages of a PDF to recognize, as comma-separated page numbers and ranges. The pages are extracted locally before upload. Leave empty to process the whole document.',
+			},
+			{
+				displayName: 'Pages per Request',
+				name: 'pagesPerChunk',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 0,
+				description:
+					'Split PDFs into chunks of this many pages, processed one after another and merged with the original page numbers. Use 0 to send the document in one request.',
+			},
 			{
 				displayName: 'Return',
 				name: 'returnMode',
@@ -115,12 +149,17 @@ export class DocumentOCRUpstage implements INodeType {
 				default: 'full',
 				description: 'Choose what data to return from the OCR response',
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -141,15 +180,6 @@ export class DocumentOCRUpstage implements INodeType {
 
 				const binaryData = item.binary[binaryPropertyName];
 
-				// Validate file size (50MB limit)
-				if (
-					binaryData.fileSize &&
-					typeof binaryData.fileSize === 'number' &&
-					binaryData.fileSize > 50 * 1024 * 1024
-				) {
-					throw new Error('File size exceeds 50MB limit');
-				}
-
 				const buffer = await this.helpers.getBinaryDataBuffer(
 					i,
 					binaryPropertyName
@@ -164,28 +194,55 @@ export class DocumentOCRUpstage implements INodeType {
 					fields.schema = schema;
 				}
 
-				// Create multipart/form-data without external dependencies
-				const { body, contentType } = createMultipartFormData(fields, {
+				const file = {
 					buffer,
 					filename: binaryData.fileName || 'upload',
 					contentType: binaryData.mimeType || 'application/octet-stream',
-				});
-
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: 'https://api.upstage.ai/v1/document-digitization',
-					body,
-					headers: {
-						'Content-Type': contentType,
-					},
-					// Response will be JSON (request body is already Buffer)
 				};
 
-				const response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'upstageApi',
-					requestOptions
-				);
+				const pageSelection = this.getNodeParameter('pages', i, '') as string;
+				const pagesPerChunk = this.getNodeParameter(
+					'pagesPerChunk',
+					i,
+					0
+				) as number;
+
+				let chunks: PdfChunk[] | undefined;
+				if (pageSelection.trim() || pagesPerChunk > 0) {
+					if (!isPdf(buffer, binaryData.mimeType)) {
+						throw new Error(
+							'Page selection and splitting are only supported for PDF files.'
+						);
+					}
+					chunks = splitPdfDocument(buffer, pageSelection, pagesPerChunk);
+				}
+
+				let response: DocumentOCRResponse;
+				if (chunks) {
+					const results = [];
+					for (const chunk of chunks) {
+						// Validate file size (50MB limit)
+						if (chunk.buffer.length > MAX_FILE_SIZE) {
+							throw new Error(
+								`File size exceeds 50MB limit for pages ${chunk.pages[0]}-${chunk.pages[chunk.pages.length - 1]}`
+							);
+						}
+						results.push({
+							pages: chunk.pages,
+							response: (await client.digitizeDocument(fields, {
+								...file,
+								buffer: chunk.buffer,
+							})) as DocumentOCRResponse,
+						});
+					}
+					response = mergeOcrResponses(results);
+				} else {
+					// Validate file size (50MB limit)
+					if (buffer.length > MAX_FILE_SIZE) {
+						throw new Error('File size exceeds 50MB limit');
+					}
+					response = await client.digitizeDocument(fields, file);
+				}
 
 				const ocrResponse = response as DocumentOCRResponse;
 
@@ -230,15 +287,9 @@ export class DocumentOCRUpstage implements INodeType {
 					});
 				}
 			} catch (error) {
-				const errorMessage =
-					error instanceof Error ? error.message : 'Unknown error';
-				const statusCode =
-					typeof error === 'object' &&
-					error !== null &&
-					'statusCode' in error &&
-					typeof error.statusCode === 'number'
-						? error.statusCode
-						: undefined;
+				const errorOutput = getErrorOutput(error);
+				const errorMessage = errorOutput.error as string;
+				const statusCode = errorOutput.statusCode;
 
 				// Log detailed error information
 				console.error('🚫 Upstage Document OCR Error:', {
@@ -250,14 +301,11 @@ export class DocumentOCRUpstage implements INodeType {
 
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: {
-							error: errorMessage,
-							statusCode,
-							error_code: (error as any)?.code || 'unknown_error',
-							timestamp: new Date().toISOString(),
-						},
+						json: errorOutput,
 						pairedItem: { item: i },
 					});
+				} else if (error instanceof UpstageApiError) {
+					throw error;
 				} else {
 					throw new Error(
 						`Upstage Document OCR failed for item ${i}: ${errorMessage}`
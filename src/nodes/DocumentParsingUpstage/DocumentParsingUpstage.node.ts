@@ -1,63 +1,259 @@
 import type {
+	IBinaryKeyData,
+	IDataObject,
 	IExecuteFunctions,
+	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
 
-// Response type definitions
-interface DocumentParsingResponse {
-	content?: {
-		html?: string;
-		markdown?: string;
-		text?: string;
-	};
-	elements?: any[];
-}
+import {
+	UpstageClient,
+	getErrorOutput,
+	type MultipartFile,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+import {
+	downloadDigitizationResults,
+	extractImageCrops,
+	groupElementsByPage,
+	joinElementContent,
+	mergeBatchResults,
+	remapPages,
+	waitForDigitization,
+	type AsyncRequestStatus,
+	type DocumentParsingElement,
+	type DocumentParsingResponse,
+	type ImageCrop,
+} from '../../utils/documentParse';
+import {
+	parseHtmlTable,
+	tableToCsv,
+	tableToRecords,
+	type HeaderMode,
+} from '../../utils/htmlTable';
+import { createXlsx } from '../../utils/xlsx';
+import {
+	isPdf,
+	parsePageRanges,
+	splitPdfDocument,
+	type PdfChunk,
+} from '../../utils/pdf';
 
+// Response type definitions
 interface AsyncSubmitResponse {
 	request_id?: string;
 }
 
-// Helper function to create multipart/form-data without external dependencies
-function createMultipartFormData(
-	fields: Record<string, string>,
-	file: { buffer: Buffer; filename: string; contentType: string }
-): { body: Buffer; contentType: string } {
-	const boundary =
-		'----WebKitFormBoundary' + Math.random().toString(36).substring(2);
-	const parts: Buffer[] = [];
-
-	// Add text fields
-	for (const [name, value] of Object.entries(fields)) {
-		parts.push(
-			Buffer.from(
-				`--${boundary}\r\n` +
-					`Content-Disposition: form-data; name="${name}"\r\n\r\n` +
-					`${value}\r\n`
-			)
+interface ParsingOutput {
+	json: IDataObject;
+	binary?: IBinaryKeyData;
+	// Elements the item was built from, used to attach their image crops
+	elements: DocumentParsingElement[];
+}
+
+const returnModeOptions: INodePropertyOptions[] = [
+	{ name: 'Full Response', value: 'full' },
+	{ name: 'Content → HTML', value: 'content_html' },
+	{ name: 'Content → Markdown', value: 'content_markdown' },
+	{ name: 'Content → Text', value: 'content_text' },
+	{ name: 'Elements Array', value: 'elements' },
+	{
+		name: 'One Item per Element',
+		value: 'split_elements',
+		description: 'Output a separate item for every layout element',
+	},
+	{
+		name: 'One Item per Page',
+		value: 'split_pages',
+		description: 'Output a separate item for every page with its elements',
+	},
+	{
+		name: 'One Item per Table',
+		value: 'split_tables',
+		description:
+			'Output a separate item for every table, converted to rows keyed by column header',
+	},
+];
+
+function toElementItem(element: DocumentParsingElement): IDataObject {
+	const { id, category, page, content, coordinates, ...rest } = element;
+	return { id, category, page, content: content ?? {}, coordinates, ...rest };
+}
+
+// Accept the pages list from Async Submit either as an array or as a page selection string
+type SubmittedPages = string | number[];
+
+function getSubmittedPages(value: SubmittedPages): number[] {
+	if (Array.isArray(value)) return value.map(Number);
+	const selection = String(value ?? '').trim();
+	if (!selection) return [];
+	const pageCount = Math.max(...(selection.match(/\d+/g) ?? []).map(Number));
+	return parsePageRanges(selection, pageCount);
+}
+
+function formatParsingOutput(
+	response: DocumentParsingResponse,
+	returnMode: string
+): ParsingOutput[] {
+	const elements = response?.elements ?? [];
+
+	// Split modes still return one item for a document without elements,
+	// so the input item does not disappear from the output
+	if (
+		(returnMode === 'split_elements' || returnMode === 'split_pages') &&
+		elements.length === 0
+	) {
+		return [{ json: { content: {}, elements: [] }, elements }];
+	}
+
+	if (returnMode === 'content_html') {
+		return [{ json: { html: response?.content?.html ?? '' }, elements }];
+	} else if (returnMode === 'content_markdown') {
+		return [
+			{ json: { markdown: response?.content?.markdown ?? '' }, elements },
+		];
+	} else if (returnMode === 'content_text') {
+		return [{ json: { text: response?.content?.text ?? '' }, elements }];
+	} else if (returnMode === 'elements') {
+		return [{ json: { elements }, elements }];
+	} else if (returnMode === 'split_elements') {
+		return elements.map(element => ({
+			json: toElementItem(element),
+			elements: [element],
+		}));
+	} else if (returnMode === 'split_pages') {
+		return groupElementsByPage(elements).map(
+			({ page, elements: pageElements }) => ({
+				json: {
+					page,
+					content: joinElementContent(pageElements) as IDataObject,
+					elements: pageElements.map(toElementItem),
+				},
+				elements: pageElements,
+			})
 		);
 	}
+	return [{ json: response as IDataObject, elements }];
+}
 
-	// Add file
-	parts.push(
-		Buffer.from(
-			`--${boundary}\r\n` +
-				`Content-Disposition: form-data; name="document"; filename="${file.filename}"\r\n` +
-				`Content-Type: ${file.contentType}\r\n\r\n`
-		)
+async function getTableItems(
+	this: IExecuteFunctions,
+	response: DocumentParsingResponse,
+	itemIndex: number
+): Promise<ParsingOutput[]> {
+	const headerMode = this.getNodeParameter(
+		'tableHeaderMode',
+		itemIndex,
+		'auto'
+	) as HeaderMode;
+	const fileFormat = this.getNodeParameter(
+		'tableFileFormat',
+		itemIndex,
+		'none'
+	) as string;
+
+	const tables = (response?.elements ?? []).filter(
+		element => element.category === 'table'
 	);
-	parts.push(file.buffer);
-	parts.push(Buffer.from('\r\n'));
+	const returnItems: ParsingOutput[] = [];
 
-	// End boundary
-	parts.push(Buffer.from(`--${boundary}--\r\n`));
+	for (const [tableIndex, element] of tables.entries()) {
+		const html = element.content?.html;
+		if (!html) {
+			throw new Error(
+				`Table ${element.id ?? tableIndex} has no HTML content. Include "HTML" in the output formats to extract tables.`
+			);
+		}
 
-	return {
-		body: Buffer.concat(parts),
-		contentType: `multipart/form-data; boundary=${boundary}`,
-	};
+		const table = parseHtmlTable(html, headerMode);
+		const returnItem: ParsingOutput = {
+			json: {
+				table_index: tableIndex,
+				id: element.id,
+				page: element.page,
+				headers: table.headers,
+				rows: tableToRecords(table),
+			},
+			elements: [element],
+		};
+
+		if (fileFormat !== 'none') {
+			const fileName = `table_${tableIndex + 1}_page_${element.page ?? 1}.${fileFormat}`;
+			const binaryData =
+				fileFormat === 'xlsx'
+					? await this.helpers.prepareBinaryData(
+							createXlsx(
+								[table.headers, ...table.rows],
+								`Table ${tableIndex + 1}`
+							),
+							fileName,
+							'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+						)
+					: await this.helpers.prepareBinaryData(
+							Buffer.from(tableToCsv(table), 'utf8'),
+							fileName,
+							'text/csv'
+						);
+			returnItem.binary = { data: binaryData };
+		}
+
+		returnItems.push(returnItem);
+	}
+
+	// A document without tables still returns one item, so the input item is not lost
+	if (returnItems.length === 0) {
+		return [{ json: { headers: [], rows: [] }, elements: [] }];
+	}
+
+	return returnItems;
+}
+
+async function buildOutputItems(
+	this: IExecuteFunctions,
+	response: DocumentParsingResponse,
+	itemIndex: number
+): Promise<INodeExecutionData[]> {
+	const returnMode = this.getNodeParameter('returnMode', itemIndex) as string;
+	const imagesAsBinary = this.getNodeParameter(
+		'imagesAsBinary',
+		itemIndex,
+		false
+	) as boolean;
+
+	let crops = new Map<DocumentParsingElement, ImageCrop>();
+	if (imagesAsBinary) {
+		({ response, crops } = extractImageCrops(response));
+	}
+
+	const outputs =
+		returnMode === 'split_tables'
+			? await getTableItems.call(this, response, itemIndex)
+			: formatParsingOutput(response, returnMode);
+
+	const returnItems: INodeExecutionData[] = [];
+	for (const output of outputs) {
+		const binary: IBinaryKeyData = { ...output.binary };
+		for (const element of output.elements) {
+			const crop = crops.get(element);
+			if (!crop) continue;
+			binary[crop.propertyName] = await this.helpers.prepareBinaryData(
+				crop.data,
+				crop.fileName,
+				crop.mimeType
+			);
+		}
+
+		const returnItem: INodeExecutionData = {
+			json: output.json,
+			pairedItem: { item: itemIndex },
+		};
+		if (Object.keys(binary).length > 0) returnItem.binary = binary;
+		returnItems.push(returnItem);
+	}
+	return returnItems;
 }
 
 export class DocumentParsingUpstage implements INodeType {
@@ -81,6 +277,12 @@ export class DocumentParsingUpstage implements INodeType {
 				options: [
 					{ name: 'Sync Parse (Upload File)', value: 'sync' },
 					{ name: 'Async Submit (Upload File)', value: 'asyncSubmit' },
+					{
+						name: 'Async Parse and Wait (Upload File)',
+						value: 'asyncParseAndWait',
+						description:
+							'Submit the file asynchronously, wait until it is parsed and return the merged result',
+					},
 					{ name: 'Async Get Result (By Request ID)', value: 'asyncGet' },
 					{ name: 'Async List Requests', value: 'asyncList' },
 				],
@@ -94,7 +296,9 @@ export class DocumentParsingUpstage implements INodeType {
 				placeholder: 'e.g. data, document, file',
 				description:
 					'Name of the input item binary property that contains the file',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Model',
@@ -105,7 +309,9 @@ export class DocumentParsingUpstage implements INodeType {
 					{ name: 'document-parse-nightly', value: 'document-parse-nightly' },
 				],
 				default: 'document-parse',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'OCR',
@@ -118,7 +324,9 @@ export class DocumentParsingUpstage implements INodeType {
 				default: 'auto',
 				description:
 					'Whether to perform OCR inference on the document before layout detection. Auto applies OCR only to image documents; Force always performs OCR.',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Base64 Encoding Categories',
@@ -132,14 +340,18 @@ export class DocumentParsingUpstage implements INodeType {
 				],
 				default: [],
 				description: 'Return cropped base64 images for selected categories',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Merge Multipage Tables',
 				name: 'merge_multipage_tables',
 				type: 'boolean',
 				default: false,
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Output Formats',
@@ -153,7 +365,9 @@ export class DocumentParsingUpstage implements INodeType {
 				default: ['html'],
 				description:
 					'Specify which formats to include in the response. Each layout element will be formatted according to these formats.',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Include Coordinates',
@@ -162,7 +376,9 @@ export class DocumentParsingUpstage implements INodeType {
 				default: true,
 				description:
 					'Whether to return coordinates of bounding boxes of each layout element',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
 			},
 			{
 				displayName: 'Chart Recognition',
@@ -171,21 +387,58 @@ export class DocumentParsingUpstage implements INodeType {
 				default: true,
 				description:
 					'Whether to use chart recognition. If true, charts are converted to tables.',
-				displayOptions: { show: { operation: ['sync', 'asyncSubmit'] } },
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
+			},
+			{
+				displayName: 'Pages',
+				name: 'pages',
+				type: 'string',
+				default: '',
+				placeholder: 'e.g. 1-3,7',
+				description:
+					'Pages of a PDF to parse, as comma-separated page numbers and ranges. The pages are extracted locally before upload. Leave empty to parse the whole document.',
+				displayOptions: {
+					show: { operation: ['sync', 'asyncSubmit', 'asyncParseAndWait'] },
+				},
+			},
+			{
+				displayName: 'Pages per Request',
+				name: 'pagesPerChunk',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 0,
+				description:
+					'Split PDFs into chunks of this many pages, parsed one after another and merged with the original page numbers. Use 0 to send the document in one request.',
+				displayOptions: { show: { operation: ['sync', 'asyncParseAndWait'] } },
 			},
 			{
 				displayName: 'Return',
 				name: 'returnMode',
 				type: 'options',
-				options: [
-					{ name: 'Full Response', value: 'full' },
-					{ name: 'Content → HTML', value: 'content_html' },
-					{ name: 'Content → Markdown', value: 'content_markdown' },
-					{ name: 'Content → Text', value: 'content_text' },
-					{ name: 'Elements Array', value: 'elements' },
-				],
+				options: returnModeOptions,
 				default: 'full',
-				displayOptions: { show: { operation: ['sync'] } },
+				displayOptions: { show: { operation: ['sync', 'asyncParseAndWait'] } },
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 5,
+				description: 'How often to check whether the request has finished',
+				displayOptions: { show: { operation: ['asyncParseAndWait'] } },
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'waitTimeout',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 600,
+				description:
+					'Maximum time to wait for the request to finish before failing',
+				displayOptions: { show: { operation: ['asyncParseAndWait'] } },
 			},
 			{
 				displayName: 'Request ID',
@@ -195,18 +448,104 @@ export class DocumentParsingUpstage implements INodeType {
 				placeholder: 'e.g. e7b1b3b0-....',
 				displayOptions: { show: { operation: ['asyncGet'] } },
 			},
+			{
+				displayName: 'Download Results',
+				name: 'downloadResults',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to download and merge all batch results once the request has completed. Requests that are still running are returned as status.',
+				displayOptions: { show: { operation: ['asyncGet'] } },
+			},
+			{
+				displayName: 'Submitted Pages',
+				name: 'submittedPages',
+				type: 'string',
+				default: '',
+				placeholder: "e.g. {{ $json.pages.join(',') }}",
+				description:
+					'Pages that were selected when the request was submitted, as returned by Async Submit. Page numbers in the results are mapped back to these pages. Leave empty when the whole document was submitted.',
+				displayOptions: {
+					show: { operation: ['asyncGet'], downloadResults: [true] },
+				},
+			},
+			{
+				displayName: 'Return',
+				name: 'returnMode',
+				type: 'options',
+				options: returnModeOptions,
+				default: 'full',
+				displayOptions: {
+					show: { operation: ['asyncGet'], downloadResults: [true] },
+				},
+			},
+			{
+				displayName: 'Table Header Row',
+				name: 'tableHeaderMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Auto-Detect',
+						value: 'auto',
+						description:
+							'Use header cells (th/thead) as column names, falling back to the first row',
+					},
+					{ name: 'First Row', value: 'firstRow' },
+					{
+						name: 'None',
+						value: 'none',
+						description: 'Name columns column_1, column_2, …',
+					},
+				],
+				default: 'auto',
+				displayOptions: { show: { returnMode: ['split_tables'] } },
+			},
+			{
+				displayName: 'Table File Format',
+				name: 'tableFileFormat',
+				type: 'options',
+				options: [
+					{ name: 'None', value: 'none' },
+					{ name: 'CSV', value: 'csv' },
+					{ name: 'XLSX', value: 'xlsx' },
+				],
+				default: 'none',
+				description:
+					'Whether to also attach each table as a file in the "data" binary property',
+				displayOptions: { show: { returnMode: ['split_tables'] } },
+			},
+			{
+				displayName: 'Output Cropped Images as Binary',
+				name: 'imagesAsBinary',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to move base64 image crops out of the JSON into binary properties named after the category (e.g. figure_0, chart_2). Elements keep a binary_property reference.',
+				displayOptions: {
+					show: { operation: ['sync', 'asyncParseAndWait', 'asyncGet'] },
+				},
+			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 
 		for (let i = 0; i < items.length; i++) {
 			try {
 				const operation = this.getNodeParameter('operation', i) as string;
 
-				if (operation === 'sync' || operation === 'asyncSubmit') {
+				if (
+					operation === 'sync' ||
+					operation === 'asyncSubmit' ||
+					operation === 'asyncParseAndWait'
+				) {
 					const binaryPropertyName = this.getNodeParameter(
 						'binaryPropertyName',
 						i
@@ -266,99 +605,124 @@ export class DocumentParsingUpstage implements INodeType {
 						fields.merge_multipage_tables = 'true';
 					}
 
-					// Create multipart/form-data without external dependencies
-					const { body, contentType } = createMultipartFormData(fields, {
+					const file: MultipartFile = {
 						buffer,
 						filename: binaryData.fileName || 'upload',
 						contentType: binaryData.mimeType || 'application/octet-stream',
-					});
-
-					const url =
-						operation === 'sync'
-							? 'https://api.upstage.ai/v1/document-digitization'
-							: 'https://api.upstage.ai/v1/document-digitization/async';
-
-					const requestOptions: IHttpRequestOptions = {
-						method: 'POST',
-						url,
-						body,
-						headers: {
-							'Content-Type': contentType,
-						},
-						// Response will be JSON (request body is already Buffer)
 					};
 
-					const response =
-						await this.helpers.httpRequestWithAuthentication.call(
-							this,
-							'upstageApi',
-							requestOptions
-						);
+					const pageSelection = this.getNodeParameter('pages', i, '') as string;
+					const pagesPerChunk =
+						operation === 'asyncSubmit'
+							? 0
+							: (this.getNodeParameter('pagesPerChunk', i, 0) as number);
 
-					if (operation === 'sync') {
-						const syncResponse = response as DocumentParsingResponse;
-						const returnMode = this.getNodeParameter('returnMode', i) as string;
-						if (returnMode === 'content_html') {
-							returnData.push({
-								json: { html: syncResponse?.content?.html ?? '' },
-								pairedItem: { item: i },
-							});
-						} else if (returnMode === 'content_markdown') {
-							returnData.push({
-								json: { markdown: syncResponse?.content?.markdown ?? '' },
-								pairedItem: { item: i },
-							});
-						} else if (returnMode === 'content_text') {
-							returnData.push({
-								json: { text: syncResponse?.content?.text ?? '' },
-								pairedItem: { item: i },
-							});
-						} else if (returnMode === 'elements') {
-							returnData.push({
-								json: { elements: syncResponse?.elements ?? [] },
-								pairedItem: { item: i },
-							});
-						} else {
-							returnData.push({
-								json: syncResponse as any,
-								pairedItem: { item: i },
-							});
+					let chunks: PdfChunk[] | undefined;
+					if (pageSelection.trim() || pagesPerChunk > 0) {
+						if (!isPdf(buffer, binaryData.mimeType)) {
+							throw new Error(
+								'Page selection and splitting are only supported for PDF files.'
+							);
 						}
-					} else {
-						const asyncResponse = response as AsyncSubmitResponse;
+						chunks = splitPdfDocument(buffer, pageSelection, pagesPerChunk);
+					}
+
+					if (operation === 'asyncSubmit') {
+						const asyncResponse = (await client.submitAsyncDigitization(
+							fields,
+							chunks ? { ...file, buffer: chunks[0].buffer } : file
+						)) as AsyncSubmitResponse;
 						returnData.push({
-							json: { request_id: asyncResponse?.request_id, submitted: true },
+							json: {
+								request_id: asyncResponse?.request_id,
+								submitted: true,
+								...(chunks ? { pages: chunks[0].pages } : {}),
+							},
 							pairedItem: { item: i },
 						});
+						continue;
+					}
+
+					const parseFile = async (
+						document: MultipartFile
+					): Promise<DocumentParsingResponse> => {
+						if (operation === 'sync') {
+							return await client.digitizeDocument(fields, document);
+						}
+
+						const submitted = (await client.submitAsyncDigitization(
+							fields,
+							document
+						)) as AsyncSubmitResponse;
+						if (!submitted?.request_id) {
+							throw new Error('Async submit did not return a request ID.');
+						}
+						const status = await waitForDigitization(
+							client,
+							submitted.request_id,
+							{
+								pollInterval: this.getNodeParameter(
+									'pollInterval',
+									i,
+									5
+								) as number,
+								timeout: this.getNodeParameter('waitTimeout', i, 600) as number,
+							}
+						);
+						return await downloadDigitizationResults(client, status);
+					};
+
+					let response: DocumentParsingResponse;
+					if (chunks) {
+						// Parse chunks one after another and restore the original page numbers
+						const results = [];
+						for (const chunk of chunks) {
+							const result = await parseFile({ ...file, buffer: chunk.buffer });
+							results.push({
+								batch: {
+									id: results.length,
+									start_page: chunk.pages[0],
+									end_page: chunk.pages[chunk.pages.length - 1],
+								},
+								result: remapPages(result, chunk.pages),
+							});
+						}
+						response = mergeBatchResults(results);
+					} else {
+						response = await parseFile(file);
 					}
+
+					returnData.push(...(await buildOutputItems.call(this, response, i)));
 				} else if (operation === 'asyncGet') {
 					const requestId = this.getNodeParameter('requestId', i) as string;
 					if (!requestId) throw new Error('Request ID is required.');
-					const requestOptions: IHttpRequestOptions = {
-						method: 'GET',
-						url: `https://api.upstage.ai/v1/document-digitization/requests/${encodeURIComponent(requestId)}`,
-					};
-					const response =
-						await this.helpers.httpRequestWithAuthentication.call(
-							this,
-							'upstageApi',
-							requestOptions
+					const response = (await client.getDigitizationRequest(
+						requestId
+					)) as AsyncRequestStatus;
+					const downloadResults = this.getNodeParameter(
+						'downloadResults',
+						i,
+						false
+					) as boolean;
+
+					if (downloadResults && response?.status === 'completed') {
+						let merged = await downloadDigitizationResults(client, response);
+						// Only the selected pages were uploaded, so results are numbered from 1
+						const submittedPages = getSubmittedPages(
+							this.getNodeParameter('submittedPages', i, '') as SubmittedPages
 						);
-					returnData.push({
-						json: response as any,
-						pairedItem: { item: i },
-					});
+						if (submittedPages.length > 0) {
+							merged = remapPages(merged, submittedPages);
+						}
+						returnData.push(...(await buildOutputItems.call(this, merged, i)));
+					} else {
+						returnData.push({
+							json: response as any,
+							pairedItem: { item: i },
+						});
+					}
 				} else if (operation === 'asyncList') {
-					const requestOptions: IHttpRequestOptions = {
-						method: 'GET',
-						url: 'https://api.upstage.ai/v1/document-digitization/requests',
-					};
-					const response =
-						await this.helpers.httpRequestWithAuthentication.call(
-							this,
-							'upstageApi',
-							requestOptions
-						);
+					const response = await client.listDigitizationRequests();
 					returnData.push({
 						json: response as any,
 						pairedItem: { item: i },
@@ -366,22 +730,8 @@ export class DocumentParsingUpstage implements INodeType {
 				}
 			} catch (error) {
 				if (this.continueOnFail()) {
-					const errorMessage =
-						error instanceof Error ? error.message : 'Unknown error';
-					const statusCode =
-						typeof error === 'object' &&
-						error !== null &&
-						'statusCode' in error &&
-						typeof error.statusCode === 'number'
-							? error.statusCode
-							: undefined;
-
 					returnData.push({
-						json: {
-							error: errorMessage,
-							statusCode,
-							timestamp: new Date().toISOString(),
-						},
+						json: getErrorOutput(error),
 						pairedItem: { item: i },
 					});
 				} else {
@@ -3,9 +3,15 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
 
+import {
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+
 export class EmbeddingsUpstage implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Upstage Embeddings',
@@ -109,12 +115,17 @@ export class EmbeddingsUpstage implements INodeType {
 				description:
 					'Field name from input data containing the text to embed (if empty, uses the "text" parameter above)',
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -149,18 +160,7 @@ export class EmbeddingsUpstage implements INodeType {
 				};
 
 				// Make API request
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: 'https://api.upstage.ai/v1/embeddings',
-					body: requestBody,
-					json: true,
-				};
-
-				const response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'upstageApi',
-					requestOptions
-				);
+				const response = await client.createEmbeddings(requestBody);
 
 				// Process response
 				if (Array.isArray(input)) {
@@ -199,7 +199,7 @@ export class EmbeddingsUpstage implements INodeType {
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: (error as Error).message || 'Unknown error' },
+						json: getErrorOutput(error),
 						pairedItem: { item: i },
 					});
 				} else {
@@ -5,6 +5,7 @@ import type {
 	SupplyData,
 } from 'n8n-workflow';
 
+import { DEFAULT_BASE_URL, getBaseUrl } from '../../utils/baseUrl';
 import { logWrapper } from '../../utils/logWrapper';
 import { getConnectionHintNoticeField } from '../../utils/sharedFields';
 
@@ -78,6 +79,7 @@ export class EmbeddingsUpstageModel implements INodeType {
 		const embeddingModel = new UpstageEmbeddings({
 			apiKey: credentials.apiKey as string,
 			model,
+			baseURL: getBaseUrl(credentials),
 		});
 
 		return {
@@ -111,7 +113,7 @@ class UpstageEmbeddings extends Embeddings {
 
 		this.apiKey = apiKey;
 		this.model = model;
-		this.baseURL = baseURL ?? 'https://api.upstage.ai/v1';
+		this.baseURL = baseURL ?? DEFAULT_BASE_URL;
 		this.batchSize = batchSize ?? 100; // Upstage API limit
 		this.stripNewLines = stripNewLines ?? true; // LangChain default
 	}
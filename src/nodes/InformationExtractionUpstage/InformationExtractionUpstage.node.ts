@@ -3,9 +3,15 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
 } from 'n8n-workflow';
 
+import {
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+
 export class InformationExtractionUpstage implements INodeType {
 	// JSON structure validation and fix method
 	private static validateAndFixJsonStructure(jsonString: string): string {
@@ -271,12 +277,17 @@ export class InformationExtractionUpstage implements INodeType {
 				],
 				default: 'extracted',
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -457,19 +468,7 @@ export class InformationExtractionUpstage implements INodeType {
 						requestBody.chunking = { pages_per_chunk: pagesPerChunk };
 					}
 
-					const requestOptions: IHttpRequestOptions = {
-						method: 'POST',
-						url: 'https://api.upstage.ai/v1/information-extraction',
-						body: requestBody,
-						json: true,
-					};
-
-					const response =
-						await this.helpers.httpRequestWithAuthentication.call(
-							this,
-							'upstageApi',
-							requestOptions
-						);
+					const response = await client.extractInformation(requestBody);
 
 					if (returnMode === 'full') {
 						returnData.push({ json: response, pairedItem: { item: i } });
@@ -547,20 +546,8 @@ export class InformationExtractionUpstage implements INodeType {
 						messages,
 					};
 
-					const requestOptions: IHttpRequestOptions = {
-						method: 'POST',
-						url: 'https://api.upstage.ai/v1/information-extraction/schema-generation',
-						body: requestBody,
-						json: true,
-					};
-
 					// Call
-					const response =
-						await this.helpers.httpRequestWithAuthentication.call(
-							this,
-							'upstageApi',
-							requestOptions
-						);
+					const response = await client.generateExtractionSchema(requestBody);
 
 					// Response parsing + binary passthrough
 					if (returnMode === 'full') {
@@ -596,7 +583,7 @@ export class InformationExtractionUpstage implements INodeType {
 			} catch (error) {
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: { error: (error as Error).message || 'Unknown error' },
+						json: getErrorOutput(error),
 						pairedItem: { item: i },
 					});
 				} else {
@@ -0,0 +1,513 @@
+import type {
+	INodeType,
+	INodeTypeDescription,
+	ISupplyDataFunctions,
+	SupplyData,
+} from 'n8n-workflow';
+
+import { logWrapper } from '../../utils/logWrapper';
+import { N8nLlmTracing } from '../../utils/N8nLlmTracing';
+import { getConnectionHintNoticeField } from '../../utils/sharedFields';
+
+export class LayoutTextSplitterUpstage implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Upstage Layout Text Splitter',
+		name: 'layoutTextSplitterUpstage',
+		icon: 'file:upstage_v2.svg',
+		group: ['transform'],
+		version: 1,
+		description:
+			'Split documents along layout elements (headings, paragraphs, tables, lists) instead of characters',
+		defaults: {
+			name: 'Upstage Layout Text Splitter',
+		},
+		codex: {
+			categories: ['AI'],
+			subcategories: {
+				AI: ['Text Splitters'],
+			},
+			resources: {
+				primaryDocumentation: [
+					{
+						url: 'https://console.upstage.ai/docs/capabilities/document-digitization/document-parsing',
+					},
+				],
+			},
+		},
+		inputs: [],
+		outputs: ['ai_textSplitter'],
+		outputNames: ['Text Splitter'],
+		properties: [
+			getConnectionHintNoticeField(['ai_document']),
+			{
+				displayName: 'Chunk Size (Tokens)',
+				name: 'chunkSize',
+				type: 'number',
+				typeOptions: { minValue: 1 },
+				default: 512,
+				description:
+					'Maximum number of tokens per chunk, including the prepended headings',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				placeholder: 'Add Option',
+				description: 'Additional options to add',
+				type: 'collection',
+				default: {},
+				options: [
+					{
+						displayName: 'Keep Tables Whole',
+						name: 'keepTablesWhole',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to never split a table, even if it exceeds the chunk size on its own',
+					},
+					{
+						displayName: 'Prepend Headings',
+						name: 'prependHeadings',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to start every chunk with the chain of headings it belongs to',
+					},
+				],
+			},
+		],
+	};
+
+	async supplyData(
+		this: ISupplyDataFunctions,
+		itemIndex: number
+	): Promise<SupplyData> {
+		this.logger.debug('Supply data for Upstage layout text splitter');
+
+		const chunkSize = this.getNodeParameter('chunkSize', itemIndex) as number;
+		const options = this.getNodeParameter('options', itemIndex, {}) as {
+			keepTablesWhole?: boolean;
+			prependHeadings?: boolean;
+		};
+
+		// Same tiktoken based estimate the model nodes use for token usage.
+		// The encoding is downloaded on first use, so fall back to ~4 characters per token when offline.
+		const tracing = new N8nLlmTracing(this);
+		let tiktokenAvailable = true;
+		const countTokens = async (text: string): Promise<number> => {
+			if (tiktokenAvailable) {
+				try {
+					return await tracing.estimateTokensFromStringList([text]);
+				} catch (error) {
+					this.logger.debug(
+						'Token estimation with tiktoken failed, using character count',
+						{ error }
+					);
+					tiktokenAvailable = false;
+				}
+			}
+			return Math.ceil(text.length / 4);
+		};
+
+		const splitter = new LayoutTextSplitter({
+			chunkSize,
+			keepTablesWhole: options.keepTablesWhole ?? true,
+			prependHeadings: options.prependHeadings ?? true,
+			countTokens,
+		});
+
+		return {
+			response: logWrapper(splitter, this),
+		};
+	}
+}
+
+// Layout aware LangChain text splitter
+import { Document, BaseDocumentTransformer } from '@langchain/core/documents';
+
+interface LayoutTextSplitterParams {
+	chunkSize: number;
+	keepTablesWhole: boolean;
+	prependHeadings: boolean;
+	countTokens: (text: string) => Promise<number>;
+}
+
+interface LayoutBlock {
+	content: string;
+	kind: 'heading' | 'table' | 'text';
+	// Heading level, 1 for the top level
+	level?: number;
+	page?: number;
+	category?: string;
+	// Index of the source document the block comes from
+	documentIndex: number;
+}
+
+interface Chunk {
+	blocks: LayoutBlock[];
+	headings: LayoutBlock[];
+	tokens: number;
+}
+
+// Element metadata of a single block that should not be copied onto a chunk
+const ELEMENT_METADATA_KEYS = [
+	'id',
+	'page',
+	'category',
+	'categories',
+	'coordinates',
+];
+
+const HTML_BLOCK_PATTERN =
+	/<table\b[\s\S]*?<\/table>|<(h[1-6]|p|ul|ol|figure|header|footer|blockquote|caption|div)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+function getHeadingLevel(category: string | undefined): number | undefined {
+	if (!category) return undefined;
+	if (category === 'title') return 1;
+	const match = /^heading(\d)$/.exec(category);
+	return match ? parseInt(match[1], 10) : undefined;
+}
+
+function stripMarkup(content: string): string {
+	return content
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/^#+\s*/, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+function parseHtmlBlocks(
+	html: string,
+	base: Omit<LayoutBlock, 'content' | 'kind'>
+): LayoutBlock[] {
+	const blocks: LayoutBlock[] = [];
+	const pushText = (text: string) => {
+		if (text.trim())
+			blocks.push({ ...base, content: text.trim(), kind: 'text' });
+	};
+
+	let lastIndex = 0;
+	for (const match of html.matchAll(HTML_BLOCK_PATTERN)) {
+		pushText(html.slice(lastIndex, match.index));
+		lastIndex = match.index! + match[0].length;
+
+		const tag = (match[1] ?? 'table').toLowerCase();
+		if (tag === 'table') {
+			blocks.push({ ...base, content: match[0], kind: 'table' });
+		} else if (/^h[1-6]$/.test(tag)) {
+			blocks.push({
+				...base,
+				content: match[0],
+				kind: 'heading',
+				level: parseInt(tag[1], 10),
+			});
+		} else {
+			blocks.push({ ...base, content: match[0], kind: 'text' });
+		}
+	}
+	pushText(html.slice(lastIndex));
+	return blocks;
+}
+
+function parseMarkdownBlocks(
+	markdown: string,
+	base: Omit<LayoutBlock, 'content' | 'kind'>
+): LayoutBlock[] {
+	const blocks: LayoutBlock[] = [];
+	const lines = markdown.split(/\r?\n/);
+	let paragraph: string[] = [];
+
+	const flushParagraph = () => {
+		const content = paragraph.join('\n').trim();
+		if (content) blocks.push({ ...base, content, kind: 'text' });
+		paragraph = [];
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const heading = /^(#{1,6})\s+\S/.exec(line);
+
+		if (heading) {
+			flushParagraph();
+			blocks.push({
+				...base,
+				content: line.trim(),
+				kind: 'heading',
+				level: heading[1].length,
+			});
+		} else if (/^\s*\|/.test(line)) {
+			flushParagraph();
+			const table: string[] = [];
+			while (i < lines.length && /^\s*\|/.test(lines[i]))
+				table.push(lines[i++]);
+			i--;
+			blocks.push({ ...base, content: table.join('\n'), kind: 'table' });
+		} else if (/^\s*<table\b/i.test(line)) {
+			flushParagraph();
+			const table: string[] = [];
+			while (i < lines.length) {
+				table.push(lines[i]);
+				if (/<\/table>/i.test(lines[i])) break;
+				i++;
+			}
+			blocks.push({ ...base, content: table.join('\n'), kind: 'table' });
+		} else if (line.trim() === '') {
+			flushParagraph();
+		} else {
+			paragraph.push(line);
+		}
+	}
+	flushParagraph();
+	return blocks;
+}
+
+/**
+ * Turn documents into layout blocks. Documents from an element split carry their
+ * category in the metadata; other documents are split by their HTML or Markdown structure.
+ */
+function toLayoutBlocks(documents: Document[]): LayoutBlock[] {
+	return documents.flatMap((document, documentIndex) => {
+		const content = document.pageContent ?? '';
+		const category = document.metadata?.category as string | undefined;
+		const base = {
+			documentIndex,
+			page: document.metadata?.page as number | undefined,
+			category,
+		};
+
+		if (category) {
+			const level = getHeadingLevel(category);
+			if (level !== undefined)
+				return [{ ...base, content, kind: 'heading', level }];
+			return [
+				{ ...base, content, kind: category === 'table' ? 'table' : 'text' },
+			];
+		}
+
+		if (/<(p|h[1-6]|table|ul|ol|figure|header|footer)\b/i.test(content)) {
+			return parseHtmlBlocks(content, base);
+		}
+		return parseMarkdownBlocks(content, base);
+	});
+}
+
+class LayoutTextSplitter extends BaseDocumentTransformer {
+	lc_namespace = ['langchain', 'document_transformers', 'upstage'];
+
+	constructor(private params: LayoutTextSplitterParams) {
+		super();
+	}
+
+	async transformDocuments(documents: Document[]): Promise<Document[]> {
+		return await this.split(documents);
+	}
+
+	async splitDocuments(documents: Document[]): Promise<Document[]> {
+		return await this.split(documents);
+	}
+
+	async createDocuments(
+		texts: string[],
+		metadatas: Array<Record<string, any>> = []
+	): Promise<Document[]> {
+		return await this.split(
+			texts.map(
+				(text, index) =>
+					new Document({ pageContent: text, metadata: metadatas[index] ?? {} })
+			)
+		);
+	}
+
+	async splitText(text: string): Promise<string[]> {
+		const documents = await this.split([
+			new Document({ pageContent: text, metadata: {} }),
+		]);
+		return documents.map(document => document.pageContent);
+	}
+
+	private async split(documents: Document[]): Promise<Document[]> {
+		const { chunkSize, keepTablesWhole, prependHeadings, countTokens } =
+			this.params;
+		const blocks = toLayoutBlocks(documents);
+		const result: Document[] = [];
+
+		let headings: LayoutBlock[] = [];
+		let headingsTokens = 0;
+		// Whether the innermost heading already appeared in a chunk
+		let headingUsed = true;
+		let chunk: Chunk = { blocks: [], headings, tokens: 0 };
+		let source: unknown;
+
+		const flush = () => {
+			if (chunk.blocks.length > 0) {
+				result.push(this.toDocument(chunk, documents));
+				headingUsed = true;
+			}
+			chunk = { blocks: [], headings, tokens: 0 };
+		};
+		// Emit headings that never got any content, so their text is not lost
+		const flushHeadings = () => {
+			if (!headingUsed && headings.length > 0) {
+				result.push(
+					this.toDocument(
+						{ blocks: [], headings, tokens: headingsTokens },
+						documents,
+						headings[headings.length - 1].documentIndex
+					)
+				);
+			}
+			headingUsed = true;
+		};
+		const budget = () =>
+			Math.max(1, chunkSize - (prependHeadings ? headingsTokens : 0));
+
+		for (const block of blocks) {
+			const blockSource = documents[block.documentIndex].metadata?.source;
+			if (blockSource !== source) {
+				flush();
+				flushHeadings();
+				headings = [];
+				headingsTokens = 0;
+				chunk.headings = headings;
+				source = blockSource;
+			}
+
+			if (block.kind === 'heading') {
+				flush();
+				const level = block.level ?? 1;
+				if (headings.some(heading => (heading.level ?? 1) >= level)) {
+					flushHeadings();
+				}
+				headings = [
+					...headings.filter(heading => (heading.level ?? 1) < level),
+					block,
+				];
+				headingsTokens = await countTokens(
+					headings.map(heading => heading.content).join('\n')
+				);
+				headingUsed = false;
+				chunk.headings = headings;
+				continue;
+			}
+
+			const tokens = await countTokens(block.content);
+
+			if (block.kind === 'table' && keepTablesWhole) {
+				if (chunk.tokens + tokens > budget()) flush();
+				chunk.blocks.push(block);
+				chunk.tokens += tokens;
+				if (chunk.tokens >= budget()) flush();
+				continue;
+			}
+
+			if (tokens > budget()) {
+				flush();
+				for (const piece of await this.splitOversized(
+					block.content,
+					tokens,
+					budget()
+				)) {
+					chunk.blocks.push({ ...block, content: piece });
+					flush();
+				}
+				continue;
+			}
+
+			if (chunk.tokens + tokens > budget()) flush();
+			chunk.blocks.push(block);
+			chunk.tokens += tokens;
+		}
+
+		flush();
+		flushHeadings();
+		return result;
+	}
+
+	// Split a block that does not fit into a chunk on line, sentence and word boundaries
+	private async splitOversized(
+		content: string,
+		tokens: number,
+		budget: number
+	): Promise<string[]> {
+		const { countTokens } = this.params;
+		// Capturing groups keep the separators, so pieces are rejoined with the text they were split on
+		const separators = [/(\n+)/, /((?<=[.!?。])\s+)/, /(\s+)/];
+		const pieces: string[] = [];
+
+		const splitPart = async (
+			text: string,
+			tokens: number,
+			level: number
+		): Promise<void> => {
+			if (tokens <= budget || level >= separators.length) {
+				pieces.push(text);
+				return;
+			}
+
+			// Split results alternate between parts and the separators between them
+			const segments = text.split(separators[level]);
+			let current = '';
+			let currentTokens = 0;
+			for (let index = 0; index < segments.length; index += 2) {
+				const part = segments[index];
+				if (!part) continue;
+				const partTokens = await countTokens(part);
+				if (current) {
+					const separator = segments[index - 1];
+					const joinedTokens =
+						currentTokens + (await countTokens(separator)) + partTokens;
+					if (joinedTokens <= budget) {
+						current += separator + part;
+						currentTokens = joinedTokens;
+						continue;
+					}
+					pieces.push(current);
+				}
+				if (partTokens > budget) {
+					await splitPart(part, partTokens, level + 1);
+					current = '';
+					currentTokens = 0;
+				} else {
+					current = part;
+					currentTokens = partTokens;
+				}
+			}
+			if (current) pieces.push(current);
+		};
+
+		await splitPart(content, tokens, 0);
+		return pieces;
+	}
+
+	private toDocument(
+		chunk: Chunk,
+		documents: Document[],
+		documentIndex = chunk.blocks[0]?.documentIndex ?? 0
+	): Document {
+		const metadata = { ...(documents[documentIndex]?.metadata ?? {}) };
+		for (const key of ELEMENT_METADATA_KEYS) delete metadata[key];
+
+		const pages = [
+			...new Set(
+				[...chunk.headings, ...chunk.blocks]
+					.map(block => block.page)
+					.filter((page): page is number => page !== undefined)
+			),
+		].sort((a, b) => a - b);
+
+		const parts = [
+			...(this.params.prependHeadings || chunk.blocks.length === 0
+				? chunk.headings.map(heading => heading.content)
+				: []),
+			...chunk.blocks.map(block => block.content),
+		];
+
+		return new Document({
+			pageContent: parts.join('\n\n'),
+			metadata: {
+				...metadata,
+				headings: chunk.headings.map(heading => stripMarkup(heading.content)),
+				...(pages.length > 0 ? { page: pages[0], pages } : {}),
+			},
+		});
+	}
+}
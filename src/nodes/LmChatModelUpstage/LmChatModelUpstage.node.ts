@@ -8,6 +8,7 @@ import {
 	type INodePropertyOptions,
 } from 'n8n-workflow';
 
+import { getBaseUrl } from '../../utils/baseUrl';
 import { N8nLlmTracing } from '../../utils/N8nLlmTracing';
 import { makeN8nLlmFailedAttemptHandler } from '../../utils/n8nLlmFailedAttemptHandler';
 import { getHttpProxyAgent } from '../../utils/httpProxyAgent';
@@ -49,7 +50,8 @@ export class LmChatModelUpstage implements INodeType {
 		],
 		requestDefaults: {
 			ignoreHttpStatusErrors: true,
-			baseURL: 'https://api.upstage.ai/v1',
+			baseURL:
+				'={{($credentials.baseUrl || "").trim().replace(/\\/+$/, "") || "https://api.upstage.ai/v1"}}',
 		},
 		properties: [
 			getConnectionHintNoticeField(['ai_chain', 'ai_agent']),
@@ -162,7 +164,7 @@ export class LmChatModelUpstage implements INodeType {
 
 				try {
 					const response = await this.helpers.request(
-						'https://api.upstage.ai/v1/models',
+						`${getBaseUrl(credentials)}/models`,
 						requestOptions
 					);
 
@@ -289,7 +291,7 @@ export class LmChatModelUpstage implements INodeType {
 				};
 
 				const response = await this.helpers.request(
-					'https://api.upstage.ai/v1/models',
+					`${getBaseUrl(credentials)}/models`,
 					requestOptions
 				);
 
@@ -402,7 +404,7 @@ export class LmChatModelUpstage implements INodeType {
 		const modelKwargs = {};
 
 		const configuration = {
-			baseURL: 'https://api.upstage.ai/v1',
+			baseURL: getBaseUrl(credentials),
 			httpAgent: getHttpProxyAgent(), // Use n8n's proxy agent when available
 			defaultHeaders: {
 				'Content-Type': 'application/json',
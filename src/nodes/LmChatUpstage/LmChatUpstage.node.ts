@@ -1,11 +1,373 @@
+import get from 'lodash/get';
 import type {
 	IExecuteFunctions,
 	INodeType,
 	INodeTypeDescription,
 	INodeExecutionData,
-	IHttpRequestOptions,
+	IDataObject,
 } from 'n8n-workflow';
 
+import { validateJsonSchema } from '../../utils/jsonSchemaValidator';
+import { parseSseStream } from '../../utils/sse';
+import {
+	UpstageApiError,
+	UpstageClient,
+	getErrorOutput,
+	type UpstageClientOptions,
+} from '../../utils/UpstageClient';
+import { getRetryOptionsField } from '../../utils/sharedFields';
+
+interface ChatCompletionToolCall {
+	id?: string;
+	type: string;
+	function: {
+		name: string;
+		arguments: string;
+	};
+}
+
+interface StreamTiming {
+	time_to_first_token_ms: number | null;
+	total_latency_ms: number;
+	chunk_count: number;
+}
+
+interface ChatMessageParameter {
+	role: string;
+	content: string | IDataObject[] | null;
+	tool_call_id?: string;
+	tool_calls?: string | ChatCompletionToolCall[];
+}
+
+// Validate a message from the Messages collection and convert it to the API format
+function toApiMessage(message: ChatMessageParameter): IDataObject {
+	if (!['system', 'user', 'assistant', 'tool'].includes(message.role)) {
+		throw new Error(
+			`Invalid message role: ${message.role}. Must be 'system', 'user', 'assistant', or 'tool'`
+		);
+	}
+
+	const apiMessage: IDataObject = {
+		role: message.role,
+		content: message.content,
+	};
+
+	if (message.role === 'tool') {
+		if (!message.tool_call_id) {
+			throw new Error('Tool messages must have a Tool Call ID');
+		}
+		apiMessage.tool_call_id = message.tool_call_id;
+	}
+
+	let toolCalls: ChatCompletionToolCall[] = [];
+	if (message.role === 'assistant' && message.tool_calls) {
+		try {
+			toolCalls =
+				typeof message.tool_calls === 'string'
+					? JSON.parse(message.tool_calls)
+					: message.tool_calls;
+		} catch (e) {
+			throw new Error('Invalid JSON in Tool Calls field');
+		}
+		if (!Array.isArray(toolCalls)) {
+			throw new Error('Tool Calls must be a JSON array');
+		}
+		if (toolCalls.length > 0) {
+			apiMessage.tool_calls = toolCalls as unknown as IDataObject[];
+		}
+	}
+
+	// An assistant message that only requests tool calls may have no content
+	if (isEmptyContent(message.content)) {
+		if (toolCalls.length === 0) {
+			throw new Error('All messages must have non-empty content');
+		}
+		apiMessage.content = null;
+	}
+
+	return apiMessage;
+}
+
+// Read messages from an input field or JSON parameter. Messages with empty
+// content (and no tool calls) are skipped, as stored transcripts often contain them.
+function getMessagesFromSource(
+	this: IExecuteFunctions,
+	source: string,
+	itemIndex: number
+): ChatMessageParameter[] {
+	let value: unknown;
+	if (source === 'field') {
+		const field = this.getNodeParameter('messagesField', itemIndex) as string;
+		value = get(this.getInputData()[itemIndex].json, field);
+		if (value === undefined) {
+			throw new Error(`No messages found in field "${field}"`);
+		}
+	} else {
+		value = this.getNodeParameter('messagesJson', itemIndex, '[]');
+	}
+
+	if (typeof value === 'string') {
+		try {
+			value = JSON.parse(value);
+		} catch (e) {
+			throw new Error('Messages must be a valid JSON array');
+		}
+	}
+
+	if (!Array.isArray(value)) {
+		throw new Error('Messages must be an array of {role, content} objects');
+	}
+
+	return value
+		.map((message, index) => {
+			if (typeof message !== 'object' || message === null || !message.role) {
+				throw new Error(
+					`Invalid message at position ${index}: expected an object with a "role"`
+				);
+			}
+			return message as ChatMessageParameter;
+		})
+		.filter(
+			message =>
+				!isEmptyContent(message.content) ||
+				(message.role === 'assistant' && !!message.tool_calls)
+		);
+}
+
+function isEmptyContent(content: ChatMessageParameter['content']): boolean {
+	if (content === null || content === undefined) return true;
+	if (typeof content === 'string') return content.trim() === '';
+	return Array.isArray(content) && content.length === 0;
+}
+
+// Build image_url content parts from the Images collection. Binary data is
+// sent inline as a data URL.
+async function getImageContentParts(
+	this: IExecuteFunctions,
+	itemIndex: number
+): Promise<IDataObject[]> {
+	const images = this.getNodeParameter('images.image', itemIndex, []) as Array<{
+		inputType: string;
+		binaryPropertyName?: string;
+		imageUrl?: string;
+	}>;
+
+	const parts: IDataObject[] = [];
+	for (const image of images) {
+		let url: string;
+		if (image.inputType === 'url') {
+			if (!image.imageUrl) throw new Error('Image URL is required.');
+			url = image.imageUrl;
+		} else {
+			const binaryPropertyName = image.binaryPropertyName || 'data';
+			const item = this.getInputData()[itemIndex];
+			if (!item.binary || !item.binary[binaryPropertyName]) {
+				throw new Error(
+					`No binary data found in property "${binaryPropertyName}".`
+				);
+			}
+			const binaryData = item.binary[binaryPropertyName];
+			const buffer = await this.helpers.getBinaryDataBuffer(
+				itemIndex,
+				binaryPropertyName
+			);
+			const mime = binaryData.mimeType || 'application/octet-stream';
+			url = `data:${mime};base64,${buffer.toString('base64')}`;
+		}
+		parts.push({ type: 'image_url', image_url: { url } });
+	}
+	return parts;
+}
+
+// Append content parts to the last user message, converting string content
+// to a text part. Adds a new user message if the conversation has none.
+function attachToLastUserMessage(
+	messages: IDataObject[],
+	parts: IDataObject[]
+): void {
+	const lastUserMessage = [...messages]
+		.reverse()
+		.find(message => message.role === 'user');
+
+	if (!lastUserMessage) {
+		messages.push({ role: 'user', content: parts });
+		return;
+	}
+
+	const content = lastUserMessage.content;
+	if (Array.isArray(content)) {
+		lastUserMessage.content = [...(content as IDataObject[]), ...parts];
+	} else {
+		lastUserMessage.content = [
+			{ type: 'text', text: (content as string) ?? '' },
+			...parts,
+		];
+	}
+}
+
+// Send a chat completion request, reading the SSE stream when streaming is enabled
+async function sendChatCompletion(
+	client: UpstageClient,
+	requestBody: IDataObject,
+	stream: boolean
+): Promise<{ response: any; streamTiming?: StreamTiming }> {
+	if (!stream) {
+		return { response: await client.createChatCompletion(requestBody) };
+	}
+
+	// Read the SSE stream and rebuild the final message from the deltas
+	const startedAt = Date.now();
+	const responseStream = await client.streamChatCompletion(requestBody);
+	const aggregated = await aggregateChatCompletionStream(
+		responseStream,
+		startedAt
+	);
+	return { response: aggregated.response, streamTiming: aggregated.timing };
+}
+
+// Parse the model output as JSON and validate it against the schema
+function parseAndValidateJson(
+	content: string,
+	schema: IDataObject
+): { data?: unknown; errors: string[] } {
+	// Models sometimes wrap JSON in a markdown code fence
+	const cleaned = content
+		.trim()
+		.replace(/^```(?:json)?\s*/i, '')
+		.replace(/\s*```$/, '');
+
+	let data: unknown;
+	try {
+		data = JSON.parse(cleaned);
+	} catch (error) {
+		return {
+			errors: [`Response is not valid JSON: ${(error as Error).message}`],
+		};
+	}
+
+	return { data, errors: validateJsonSchema(data, schema) };
+}
+
+function buildSchemaRetryPrompt(errors: string[]): string {
+	return (
+		'Your previous response does not match the required JSON schema:\n' +
+		errors.map(error => `- ${error}`).join('\n') +
+		'\nRespond again with only the corrected JSON.'
+	);
+}
+
+// Tool call arguments are a JSON string; fall back to the raw string if it does not parse
+function parseToolCallArguments(args?: string): IDataObject | string {
+	if (!args) return {};
+	try {
+		return JSON.parse(args);
+	} catch (e) {
+		return args;
+	}
+}
+
+// Rebuild a chat.completion response from the SSE chunks of a streamed request
+async function aggregateChatCompletionStream(
+	stream: AsyncIterable<Buffer | string>,
+	startedAt: number
+): Promise<{ response: IDataObject; timing: StreamTiming }> {
+	let id: string | undefined;
+	let model: string | undefined;
+	let created: number | undefined;
+	let role = 'assistant';
+	let content = '';
+	let finishReason: string | null = null;
+	let usage: IDataObject | undefined;
+	let firstTokenAt: number | undefined;
+	let chunkCount = 0;
+	const toolCalls: ChatCompletionToolCall[] = [];
+
+	for await (const sseEvent of parseSseStream(stream)) {
+		if (sseEvent.data === '[DONE]') break;
+
+		let chunk: any;
+		try {
+			chunk = JSON.parse(sseEvent.data);
+		} catch (e) {
+			throw new Error(`Invalid JSON in stream chunk: ${sseEvent.data}`);
+		}
+
+		if (chunk.error) {
+			throw new Error(chunk.error.message || JSON.stringify(chunk.error));
+		}
+
+		chunkCount++;
+		id = id ?? chunk.id;
+		model = model ?? chunk.model;
+		created = created ?? chunk.created;
+		if (chunk.usage) usage = chunk.usage;
+
+		const choice = chunk.choices?.[0];
+		if (!choice) continue;
+
+		const delta = choice.delta || {};
+		if (delta.role) role = delta.role;
+
+		if (typeof delta.content === 'string' && delta.content.length > 0) {
+			firstTokenAt = firstTokenAt ?? Date.now();
+			content += delta.content;
+		}
+
+		// Tool call deltas arrive in pieces keyed by index; arguments are concatenated
+		if (Array.isArray(delta.tool_calls)) {
+			firstTokenAt = firstTokenAt ?? Date.now();
+			for (const toolCallDelta of delta.tool_calls) {
+				const index = toolCallDelta.index ?? toolCalls.length;
+				const toolCall = (toolCalls[index] = toolCalls[index] ?? {
+					type: 'function',
+					function: { name: '', arguments: '' },
+				});
+				if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+				if (toolCallDelta.type) toolCall.type = toolCallDelta.type;
+				if (toolCallDelta.function?.name) {
+					toolCall.function.name += toolCallDelta.function.name;
+				}
+				if (toolCallDelta.function?.arguments) {
+					toolCall.function.arguments += toolCallDelta.function.arguments;
+				}
+			}
+		}
+
+		if (choice.finish_reason) finishReason = choice.finish_reason;
+	}
+
+	const message: IDataObject = { role, content };
+	const completedToolCalls = toolCalls.filter(toolCall => toolCall);
+	if (completedToolCalls.length > 0) {
+		message.tool_calls = completedToolCalls as unknown as IDataObject[];
+	}
+
+	const response: IDataObject = {
+		id,
+		object: 'chat.completion',
+		created,
+		model,
+		choices: [
+			{
+				index: 0,
+				message,
+				finish_reason: finishReason,
+			},
+		],
+	};
+	if (usage) response.usage = usage;
+
+	return {
+		response,
+		timing: {
+			time_to_first_token_ms:
+				firstTokenAt !== undefined ? firstTokenAt - startedAt : null,
+			total_latency_ms: Date.now() - startedAt,
+			chunk_count: chunkCount,
+		},
+	};
+}
+
 export class LmChatUpstage implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Upstage Solar LLM',
@@ -18,7 +380,7 @@ export class LmChatUpstage implements INodeType {
 			name: 'Upstage Solar LLM',
 		},
 		inputs: ['main'],
-		outputs: ['main'],
+		outputs: `={{ $parameter.toolCallsOutput ? [{ type: 'main', displayName: 'Response' }, { type: 'main', displayName: 'Tool Calls' }] : ['main'] }}`,
 		credentials: [
 			{
 				name: 'upstageApi',
@@ -60,6 +422,73 @@ export class LmChatUpstage implements INodeType {
 				default: 'solar-mini',
 				description: 'The Solar model to use',
 			},
+			{
+				displayName: 'Messages Source',
+				name: 'messagesSource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Define Below',
+						value: 'define',
+						description: 'Build the conversation with the Messages parameter',
+					},
+					{
+						name: 'From Input Field',
+						value: 'field',
+						description:
+							'Read an array of {role, content} objects from a field of the input item',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description:
+							'Read an array of {role, content} objects from a JSON value or expression',
+					},
+				],
+				default: 'define',
+				description: 'Where to take the chat messages from',
+			},
+			{
+				displayName: 'Messages Field',
+				name: 'messagesField',
+				type: 'string',
+				default: 'messages',
+				placeholder: 'e.g. messages, chat.history',
+				displayOptions: {
+					show: {
+						messagesSource: ['field'],
+					},
+				},
+				description:
+					'Name of the input field containing the messages array. Supports dot notation for nested fields.',
+			},
+			{
+				displayName: 'Messages (JSON)',
+				name: 'messagesJson',
+				type: 'json',
+				default: '[]',
+				displayOptions: {
+					show: {
+						messagesSource: ['json'],
+					},
+				},
+				description:
+					'Array of messages, e.g. [{"role": "user", "content": "Hello"}]',
+			},
+			{
+				displayName: 'Combine All Items Into One Conversation',
+				name: 'combineItems',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						messagesSource: ['field', 'json'],
+					},
+				},
+				description:
+					'Whether to concatenate the messages of all input items, in order, and send them as a single conversation. Other parameters are read from the first item.',
+			},
 			{
 				displayName: 'Messages',
 				name: 'messages',
@@ -69,6 +498,11 @@ export class LmChatUpstage implements INodeType {
 				},
 				default: {},
 				placeholder: 'Add message',
+				displayOptions: {
+					show: {
+						messagesSource: ['define'],
+					},
+				},
 				options: [
 					{
 						displayName: 'Message',
@@ -91,6 +525,10 @@ export class LmChatUpstage implements INodeType {
 										name: 'Assistant',
 										value: 'assistant',
 									},
+									{
+										name: 'Tool',
+										value: 'tool',
+									},
 								],
 								default: 'user',
 							},
@@ -102,7 +540,82 @@ export class LmChatUpstage implements INodeType {
 									rows: 2,
 								},
 								default: '',
-								description: 'Message content',
+								description:
+									'Message content. For Tool messages, the result of the tool call.',
+							},
+							{
+								displayName: 'Tool Call ID',
+								name: 'tool_call_id',
+								type: 'string',
+								default: '',
+								displayOptions: {
+									show: {
+										role: ['tool'],
+									},
+								},
+								description:
+									'ID of the tool call this message is the result of',
+							},
+							{
+								displayName: 'Tool Calls (JSON)',
+								name: 'tool_calls',
+								type: 'json',
+								default: '',
+								displayOptions: {
+									show: {
+										role: ['assistant'],
+									},
+								},
+								description:
+									'Tool calls previously requested by the assistant, as returned in the "assistant_message" field of the Tool Calls output. Required before sending the matching Tool messages.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Images',
+				name: 'images',
+				type: 'fixedCollection',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				placeholder: 'Add image',
+				description:
+					'Images to attach to the last user message as multimodal content. Requires a model with vision support.',
+				options: [
+					{
+						displayName: 'Image',
+						name: 'image',
+						values: [
+							{
+								displayName: 'Input Type',
+								name: 'inputType',
+								type: 'options',
+								options: [
+									{ name: 'Binary (from previous node)', value: 'binary' },
+									{ name: 'Image URL', value: 'url' },
+								],
+								default: 'binary',
+							},
+							{
+								displayName: 'Binary Property',
+								name: 'binaryPropertyName',
+								type: 'string',
+								default: 'data',
+								placeholder: 'e.g. data, image, screenshot',
+								description:
+									'Name of the binary property that contains the image',
+								displayOptions: { show: { inputType: ['binary'] } },
+							},
+							{
+								displayName: 'Image URL',
+								name: 'imageUrl',
+								type: 'string',
+								default: '',
+								placeholder: 'e.g. https://example.com/sample.png',
+								displayOptions: { show: { inputType: ['url'] } },
 							},
 						],
 					},
@@ -126,7 +639,16 @@ export class LmChatUpstage implements INodeType {
 					{ name: 'None', value: 'none' },
 				],
 				default: 'auto',
-				description: 'How the model should use tools. Set to Required to force function calling.',
+				description:
+					'How the model should use tools. Set to Required to force function calling.',
+			},
+			{
+				displayName: 'Output Tool Calls Separately',
+				name: 'toolCallsOutput',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to route tool calls requested by the model to a second "Tool Calls" output, one item per call. Responses without tool calls stay on the first output.',
 			},
 			{
 				displayName: 'Options',
@@ -264,26 +786,72 @@ export class LmChatUpstage implements INodeType {
 						description:
 							'JSON schema for structured outputs when using json_schema format',
 					},
+					{
+						displayName: 'Schema Validation Retries',
+						name: 'schema_retries',
+						type: 'number',
+						displayOptions: {
+							show: {
+								response_format: ['json_schema'],
+							},
+						},
+						default: 2,
+						typeOptions: {
+							minValue: 0,
+							maxValue: 10,
+						},
+						description:
+							'How many times to re-prompt the model with the validation errors when the response does not match the JSON schema. The parsed result is returned in the "data" field.',
+					},
 				],
 			},
+			getRetryOptionsField(),
 		],
 	};
 
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const client = await UpstageClient.create(
+			this,
+			this.getNodeParameter('retryOptions', 0, {}) as UpstageClientOptions
+		);
+		const toolCallData: INodeExecutionData[] = [];
+
+		const messagesSource = this.getNodeParameter(
+			'messagesSource',
+			0,
+			'define'
+		) as string;
+		const combineItems =
+			messagesSource !== 'define' &&
+			(this.getNodeParameter('combineItems', 0, false) as boolean);
+
+		// When combining, all items form a single conversation sent once
+		const runCount = combineItems ? Math.min(items.length, 1) : items.length;
+
+		for (let i = 0; i < runCount; i++) {
+			const pairedItem = combineItems
+				? items.map((_, index) => ({ item: index }))
+				: { item: i };
 
-		for (let i = 0; i < items.length; i++) {
 			try {
 				const model = this.getNodeParameter('model', i) as string;
-				const messages = this.getNodeParameter(
-					'messages.message',
-					i,
-					[]
-				) as Array<{
-					role: string;
-					content: string;
-				}>;
+
+				let messages: ChatMessageParameter[];
+				if (messagesSource === 'define') {
+					messages = this.getNodeParameter(
+						'messages.message',
+						i,
+						[]
+					) as ChatMessageParameter[];
+				} else if (combineItems) {
+					messages = items.flatMap((_, index) =>
+						getMessagesFromSource.call(this, messagesSource, index)
+					);
+				} else {
+					messages = getMessagesFromSource.call(this, messagesSource, i);
+				}
 				const options = this.getNodeParameter('options', i, {}) as {
 					temperature?: number;
 					max_tokens?: number;
@@ -294,11 +862,21 @@ export class LmChatUpstage implements INodeType {
 					presence_penalty?: number;
 					response_format?: string;
 					json_schema?: string;
+					schema_retries?: number;
 				};
 
 				// Optional tools and tool_choice parameters
 				const toolsRaw = this.getNodeParameter('tools', i, '[]') as string;
-				const toolChoice = this.getNodeParameter('tool_choice', i, 'auto') as string;
+				const toolChoice = this.getNodeParameter(
+					'tool_choice',
+					i,
+					'auto'
+				) as string;
+				const toolCallsOutput = this.getNodeParameter(
+					'toolCallsOutput',
+					i,
+					false
+				) as boolean;
 
 				// Validate messages array
 				if (!messages || messages.length === 0) {
@@ -307,22 +885,19 @@ export class LmChatUpstage implements INodeType {
 					);
 				}
 
-				// Validate message content
-				for (const message of messages) {
-					if (!message.content || message.content.trim() === '') {
-						throw new Error('All messages must have non-empty content');
-					}
-					if (!['system', 'user', 'assistant'].includes(message.role)) {
-						throw new Error(
-							`Invalid message role: ${message.role}. Must be 'system', 'user', or 'assistant'`
-						);
-					}
+				// Validate messages and convert them to the API format
+				const apiMessages = messages.map(message => toApiMessage(message));
+
+				// Attach images as image_url content parts
+				const imageParts = await getImageContentParts.call(this, i);
+				if (imageParts.length > 0) {
+					attachToLastUserMessage(apiMessages, imageParts);
 				}
 
 				// Build request body
 				const requestBody: any = {
 					model,
-					messages,
+					messages: apiMessages,
 					...options,
 				};
 
@@ -342,6 +917,7 @@ export class LmChatUpstage implements INodeType {
 				}
 
 				// Handle response_format properly
+				let validationSchema: IDataObject | undefined;
 				if (options.response_format && options.response_format !== 'text') {
 					if (options.response_format === 'json_object') {
 						requestBody.response_format = { type: 'json_object' };
@@ -349,62 +925,116 @@ export class LmChatUpstage implements INodeType {
 						options.response_format === 'json_schema' &&
 						options.json_schema
 					) {
+						let schema: IDataObject;
 						try {
-							const schema = JSON.parse(options.json_schema);
-							requestBody.response_format = {
-								type: 'json_schema',
-								json_schema: schema,
-							};
+							schema = JSON.parse(options.json_schema);
 						} catch (error) {
 							throw new Error('Invalid JSON schema provided');
 						}
+						requestBody.response_format = {
+							type: 'json_schema',
+							json_schema: schema,
+						};
+						// The schema itself is nested under "schema" in the response format
+						validationSchema = (schema.schema as IDataObject) ?? schema;
 					}
 					// Remove the raw response_format and json_schema from body
 					delete requestBody.json_schema;
 				}
 
-				// Make API request
-				const requestOptions: IHttpRequestOptions = {
-					method: 'POST',
-					url: 'https://api.upstage.ai/v1/chat/completions',
-					body: requestBody,
-					json: true,
-				};
-
-				// Note: Proxy configuration is handled at the n8n instance level
-				// Individual node proxy settings are not directly supported in n8n's HTTP helpers
-				// Users should configure proxy through n8n's global settings or environment
+				// Schema retries is a node option, not an API parameter
+				delete requestBody.schema_retries;
 
-				const response = await this.helpers.httpRequestWithAuthentication.call(
-					this,
-					'upstageApi',
-					requestOptions
+				let { response, streamTiming } = await sendChatCompletion(
+					client,
+					requestBody,
+					options.stream ?? false
 				);
 
-				// Handle streaming vs non-streaming response
-				if (options.stream) {
-					// For streaming, we'd need to handle the stream properly
-					// For now, return the full response
-					returnData.push({
-						json: response,
-						pairedItem: { item: i },
-					});
-				} else {
-					// Extract the assistant's message
-					const choice = response.choices?.[0];
-					const content = choice?.message?.content || '';
+				// Extract the assistant's message
+				let choice = response.choices?.[0];
+				let content = choice?.message?.content || '';
+				let toolCalls: ChatCompletionToolCall[] =
+					choice?.message?.tool_calls ?? [];
 
-					returnData.push({
-						json: {
-							content,
-							usage: response.usage,
-							model: response.model,
-							created: response.created,
-							full_response: response,
-						},
-						pairedItem: { item: i },
-					});
+				// Validate structured output against the schema, re-prompting on mismatch
+				let data: unknown;
+				let schemaAttempts = 0;
+				if (validationSchema !== undefined) {
+					const maxRetries = options.schema_retries ?? 2;
+					while (toolCalls.length === 0) {
+						schemaAttempts++;
+						const validation = parseAndValidateJson(content, validationSchema);
+						if (validation.errors.length === 0) {
+							data = validation.data;
+							break;
+						}
+						if (schemaAttempts > maxRetries) {
+							throw new Error(
+								`Response does not match the JSON schema after ${schemaAttempts} attempt(s): ${validation.errors.join('; ')}`
+							);
+						}
+
+						requestBody.messages = [
+							...requestBody.messages,
+							{ role: 'assistant', content },
+							{
+								role: 'user',
+								content: buildSchemaRetryPrompt(validation.errors),
+							},
+						];
+						({ response, streamTiming } = await sendChatCompletion(
+							client,
+							requestBody,
+							options.stream ?? false
+						));
+						choice = response.choices?.[0];
+						content = choice?.message?.content || '';
+						toolCalls = choice?.message?.tool_calls ?? [];
+					}
 				}
+
+				if (toolCallsOutput && toolCalls.length > 0) {
+					// One item per requested call, carrying the assistant message to replay
+					for (const toolCall of toolCalls) {
+						toolCallData.push({
+							json: {
+								tool_call_id: toolCall.id,
+								name: toolCall.function?.name,
+								arguments: parseToolCallArguments(toolCall.function?.arguments),
+								assistant_message: choice.message,
+								model: response.model,
+								usage: response.usage,
+							},
+							pairedItem,
+						});
+					}
+					continue;
+				}
+
+				const json: IDataObject = {
+					content,
+					usage: response.usage,
+					model: response.model,
+					created: response.created,
+					full_response: response,
+				};
+				if (data !== undefined) {
+					json.data = data as IDataObject;
+					json.schema_attempts = schemaAttempts;
+				}
+				if (toolCalls.length > 0) {
+					json.finish_reason = choice?.finish_reason;
+					json.tool_calls = toolCalls as unknown as IDataObject[];
+				}
+				if (streamTiming) {
+					json.streaming = streamTiming as unknown as IDataObject;
+				}
+
+				returnData.push({
+					json,
+					pairedItem,
+				});
 			} catch (error) {
 				const errorMessage =
 					error instanceof Error ? error.message : 'Unknown error';
@@ -418,13 +1048,11 @@ export class LmChatUpstage implements INodeType {
 
 				if (this.continueOnFail()) {
 					returnData.push({
-						json: {
-							error: errorMessage,
-							error_code: (error as any)?.code || 'unknown_error',
-							timestamp: new Date().toISOString(),
-						},
-						pairedItem: { item: i },
+						json: getErrorOutput(error),
+						pairedItem,
 					});
+				} else if (error instanceof UpstageApiError) {
+					throw error;
 				} else {
 					throw new Error(
 						`Upstage Solar LLM failed for item ${i}: ${errorMessage}`
@@ -433,6 +1061,10 @@ export class LmChatUpstage implements INodeType {
 			}
 		}
 
+		if (this.getNodeParameter('toolCallsOutput', 0, false) as boolean) {
+			return [returnData, toolCallData];
+		}
+
 		return [returnData];
 	}
 }
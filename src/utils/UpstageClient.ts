@@ -0,0 +1,419 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	INode,
+	ISupplyDataFunctions,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError, sleep } from 'n8n-workflow';
+
+import { getBaseUrl } from './baseUrl';
+import { createMultipartFormData, type MultipartFile } from './multipart';
+import {
+	getErrorStatusCode,
+	getRetryAfterMs,
+	isRetryableError,
+	isRetryableBeforeProcessing,
+} from './retryableError';
+
+export type { MultipartFile } from './multipart';
+
+type UpstageContext = IExecuteFunctions | ISupplyDataFunctions;
+
+export interface UpstageClientOptions {
+	/** Request timeout in milliseconds, no timeout if not set or 0 */
+	timeout?: number;
+	/** Total number of attempts for rate limited, server and network errors */
+	maxAttempts?: number;
+	/** Base delay in milliseconds, doubled on every retry */
+	baseDelay?: number;
+	/** Whether to randomize the delay to spread out concurrent retries */
+	jitter?: boolean;
+}
+
+interface UpstageRequest {
+	method: IHttpRequestMethods;
+	path: string;
+	body?: IHttpRequestOptions['body'];
+	qs?: IDataObject;
+	headers?: IDataObject;
+	json?: boolean;
+	stream?: boolean;
+	/**
+	 * Set to false for requests that create a resource (uploads, async jobs). These are only
+	 * retried when the server cannot have processed them, to avoid duplicate files or jobs.
+	 */
+	idempotent?: boolean;
+}
+
+type ClientOptions = Required<Omit<UpstageClientOptions, 'timeout'>> &
+	Pick<UpstageClientOptions, 'timeout'>;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY = 1000;
+const MAX_RETRY_DELAY = 300000;
+
+/**
+ * Error returned by the Upstage API, with the HTTP status and Upstage error code
+ */
+export class UpstageApiError extends NodeApiError {
+	statusCode?: number;
+
+	errorCode?: string;
+}
+
+/**
+ * Extract HTTP status, Upstage error code and message from a request error.
+ * Handles errors thrown by n8n's HTTP helpers (NodeApiError wrapping an AxiosError)
+ * as well as plain Axios-like errors.
+ */
+export function getUpstageErrorDetails(error: any): {
+	message: string;
+	statusCode?: number;
+	errorCode?: string;
+} {
+	if (error instanceof UpstageApiError) {
+		return {
+			message: error.message,
+			statusCode: error.statusCode,
+			errorCode: error.errorCode,
+		};
+	}
+
+	const response = error?.cause?.response ?? error?.response;
+	const statusCode = getErrorStatusCode(error);
+
+	const data = error?.context?.data ?? response?.data;
+	const apiError =
+		data && typeof data === 'object' && !Array.isArray(data)
+			? (data.error ?? data)
+			: undefined;
+
+	const errorCode =
+		apiError?.code ??
+		apiError?.type ??
+		error?.cause?.code ??
+		(typeof error?.code === 'string' ? error.code : undefined);
+
+	const message =
+		apiError?.message ??
+		error?.description ??
+		(error instanceof Error ? error.message : 'Unknown error');
+
+	return {
+		message: String(message),
+		statusCode: statusCode || undefined,
+		errorCode: errorCode !== undefined ? String(errorCode) : undefined,
+	};
+}
+
+/**
+ * Build the item returned for a failed item when "Continue On Fail" is enabled
+ */
+export function getErrorOutput(error: unknown): IDataObject {
+	const { message, statusCode, errorCode } = getUpstageErrorDetails(error);
+	return {
+		error: message,
+		statusCode,
+		error_code: errorCode || 'unknown_error',
+		timestamp: new Date().toISOString(),
+	};
+}
+
+function toUpstageApiError(node: INode, error: unknown): UpstageApiError {
+	if (error instanceof UpstageApiError) return error;
+
+	const { message, statusCode, errorCode } = getUpstageErrorDetails(error);
+	const apiError = new UpstageApiError(
+		node,
+		{ message, code: errorCode ?? null } as JsonObject,
+		{
+			message: statusCode
+				? `Upstage API request failed (${statusCode}): ${message}`
+				: `Upstage API request failed: ${message}`,
+			description: errorCode ? `Error code: ${errorCode}` : undefined,
+			httpCode: statusCode ? String(statusCode) : undefined,
+		}
+	);
+	apiError.statusCode = statusCode;
+	apiError.errorCode = errorCode;
+	return apiError;
+}
+
+// Delay before the next attempt: the server's Retry-After if present,
+// otherwise exponential backoff with optional jitter
+function getRetryDelay(
+	error: unknown,
+	attempt: number,
+	options: ClientOptions
+): number {
+	const retryAfter = getRetryAfterMs(error);
+	if (retryAfter !== undefined) return Math.min(retryAfter, MAX_RETRY_DELAY);
+
+	const delay = Math.min(options.baseDelay * 2 ** attempt, MAX_RETRY_DELAY);
+	return options.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Client for the Upstage REST API used by the regular (non-LangChain) nodes.
+ * Requests go through n8n's authenticated HTTP helpers with the `upstageApi` credentials.
+ */
+export class UpstageClient {
+	private constructor(
+		private ctx: UpstageContext,
+		readonly baseUrl: string,
+		private options: ClientOptions
+	) {}
+
+	static async create(
+		ctx: UpstageContext,
+		options: UpstageClientOptions = {}
+	): Promise<UpstageClient> {
+		const credentials = await ctx.getCredentials('upstageApi');
+		return new UpstageClient(ctx, getBaseUrl(credentials), {
+			timeout: options.timeout,
+			maxAttempts: Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+			baseDelay: options.baseDelay ?? DEFAULT_BASE_DELAY,
+			jitter: options.jitter ?? true,
+		});
+	}
+
+	/**
+	 * Send a request, retrying transient failures with exponential backoff.
+	 * Honors the Retry-After header of rate limited responses.
+	 */
+	async request<T = any>(request: UpstageRequest): Promise<T> {
+		const requestOptions: IHttpRequestOptions = {
+			method: request.method,
+			url: `${this.baseUrl}${request.path}`,
+		};
+		if (this.options.timeout) requestOptions.timeout = this.options.timeout;
+		if (request.body !== undefined) requestOptions.body = request.body;
+		if (request.qs) requestOptions.qs = request.qs;
+		if (request.headers) requestOptions.headers = request.headers;
+		if (request.json) requestOptions.json = true;
+		if (request.stream) requestOptions.encoding = 'stream';
+
+		return await this.withRetry<T>(
+			async () =>
+				(await this.ctx.helpers.httpRequestWithAuthentication.call(
+					this.ctx as IExecuteFunctions,
+					'upstageApi',
+					requestOptions
+				)) as T,
+			request.idempotent === false
+				? isRetryableBeforeProcessing
+				: isRetryableError
+		);
+	}
+
+	private async withRetry<T>(
+		send: () => Promise<T>,
+		isRetryable: (error: unknown) => boolean = isRetryableError
+	): Promise<T> {
+		for (let attempt = 1; ; attempt++) {
+			try {
+				return await send();
+			} catch (error) {
+				if (attempt >= this.options.maxAttempts || !isRetryable(error)) {
+					throw toUpstageApiError(this.ctx.getNode(), error);
+				}
+				await sleep(getRetryDelay(error, attempt - 1, this.options));
+			}
+		}
+	}
+
+	private async upload<T = any>(
+		path: string,
+		fields: Record<string, string>,
+		file: MultipartFile,
+		fileFieldName: string
+	): Promise<T> {
+		const { body, contentType } = createMultipartFormData(
+			fields,
+			file,
+			fileFieldName
+		);
+		return await this.request<T>({
+			method: 'POST',
+			path,
+			body,
+			headers: { 'Content-Type': contentType },
+			idempotent: false,
+		});
+	}
+
+	// ========== Chat ==========
+
+	async createChatCompletion(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/chat/completions',
+			body,
+			json: true,
+		});
+	}
+
+	async streamChatCompletion(
+		body: IDataObject
+	): Promise<AsyncIterable<Buffer>> {
+		return await this.request({
+			method: 'POST',
+			path: '/chat/completions',
+			body: { ...body, stream: true },
+			json: true,
+			stream: true,
+		});
+	}
+
+	// ========== Embeddings ==========
+
+	async createEmbeddings(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/embeddings',
+			body,
+			json: true,
+		});
+	}
+
+	// ========== Document Digitization (Parse / OCR) ==========
+
+	async digitizeDocument(
+		fields: Record<string, string>,
+		file: MultipartFile
+	): Promise<any> {
+		return await this.upload(
+			'/document-digitization',
+			fields,
+			file,
+			'document'
+		);
+	}
+
+	async submitAsyncDigitization(
+		fields: Record<string, string>,
+		file: MultipartFile
+	): Promise<any> {
+		return await this.upload(
+			'/document-digitization/async',
+			fields,
+			file,
+			'document'
+		);
+	}
+
+	async getDigitizationRequest(requestId: string): Promise<any> {
+		return await this.request({
+			method: 'GET',
+			path: `/document-digitization/requests/${encodeURIComponent(requestId)}`,
+		});
+	}
+
+	async listDigitizationRequests(): Promise<any> {
+		return await this.request({
+			method: 'GET',
+			path: '/document-digitization/requests',
+		});
+	}
+
+	/**
+	 * Download the result of a finished async batch.
+	 * Batch download URLs are pre-signed, so no credentials are sent.
+	 */
+	async downloadDigitizationResult(downloadUrl: string): Promise<any> {
+		return await this.withRetry(
+			async () =>
+				await this.ctx.helpers.httpRequest({
+					method: 'GET',
+					url: downloadUrl,
+					json: true,
+					...(this.options.timeout ? { timeout: this.options.timeout } : {}),
+				})
+		);
+	}
+
+	// ========== Information Extraction / Classification ==========
+
+	async extractInformation(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/information-extraction',
+			body,
+			json: true,
+		});
+	}
+
+	async generateExtractionSchema(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/information-extraction/schema-generation',
+			body,
+			json: true,
+		});
+	}
+
+	async classifyDocument(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/document-classification',
+			body,
+			json: true,
+		});
+	}
+
+	// ========== Document Chat ==========
+
+	async uploadDocumentChatFile(
+		fields: Record<string, string>,
+		file: MultipartFile
+	): Promise<any> {
+		return await this.upload('/document-chat/files', fields, file, 'file');
+	}
+
+	async getDocumentChatFile(fileId: string, qs?: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'GET',
+			path: `/document-chat/files/${encodeURIComponent(fileId)}`,
+			qs,
+		});
+	}
+
+	async listDocumentChatFiles(qs?: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'GET',
+			path: '/document-chat/files',
+			qs,
+		});
+	}
+
+	async deleteDocumentChatFile(fileId: string): Promise<any> {
+		return await this.request({
+			method: 'DELETE',
+			path: `/document-chat/files/${encodeURIComponent(fileId)}`,
+		});
+	}
+
+	async createDocumentChatResponse(body: IDataObject): Promise<any> {
+		return await this.request({
+			method: 'POST',
+			path: '/document-chat/responses',
+			body,
+			json: true,
+		});
+	}
+
+	async streamDocumentChatResponse(
+		body: IDataObject
+	): Promise<AsyncIterable<Buffer>> {
+		return await this.request({
+			method: 'POST',
+			path: '/document-chat/responses',
+			body: { ...body, stream: true },
+			json: true,
+			stream: true,
+		});
+	}
+}
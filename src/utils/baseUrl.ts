@@ -0,0 +1,14 @@
+import type { ICredentialDataDecryptedObject } from 'n8n-workflow';
+
+export const DEFAULT_BASE_URL = 'https://api.upstage.ai/v1';
+
+/**
+ * Get the API base URL from the Upstage API credentials.
+ * Falls back to the public endpoint for credentials created before the field existed.
+ */
+export function getBaseUrl(
+	credentials: ICredentialDataDecryptedObject
+): string {
+	const baseUrl = (credentials.baseUrl as string | undefined)?.trim();
+	return (baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+}
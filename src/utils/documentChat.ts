@@ -0,0 +1,294 @@
+import type { IDataObject } from 'n8n-workflow';
+import { sleep } from 'n8n-workflow';
+
+import { parseSseStream } from './sse';
+import type { UpstageClient } from './UpstageClient';
+
+/**
+ * A source reference attached to a Document Chat answer
+ */
+export interface DocumentChatCitation {
+	fileId?: string;
+	fileName?: string;
+	page?: number;
+	quote?: string;
+	startIndex?: number;
+	endIndex?: number;
+}
+
+export interface WaitForFileOptions {
+	/** Seconds between two status checks */
+	pollInterval: number;
+	/** Maximum number of seconds to wait for the file to be processed */
+	timeout: number;
+}
+
+const PROCESSED_STATUSES = ['processed', 'completed', 'ready'];
+const FAILED_STATUSES = ['failed', 'error'];
+
+/**
+ * Poll an uploaded Document Chat file until it is processed and can be chatted with.
+ * Throws if processing fails or does not finish within the timeout.
+ */
+export async function waitForDocumentChatFile(
+	client: UpstageClient,
+	fileId: string,
+	options: WaitForFileOptions
+): Promise<IDataObject> {
+	const deadline = Date.now() + options.timeout * 1000;
+
+	for (;;) {
+		const file = (await client.getDocumentChatFile(fileId, {
+			view: 'summary',
+		})) as IDataObject;
+		const status = String(file?.status ?? '').toLowerCase();
+
+		if (PROCESSED_STATUSES.includes(status)) return file;
+		if (FAILED_STATUSES.includes(status)) {
+			const error = file.error as IDataObject | string | undefined;
+			const reason =
+				(typeof error === 'string' ? error : error?.message) ??
+				file.status_details ??
+				file.failure_message ??
+				'unknown reason';
+			throw new Error(`Processing of file ${fileId} failed: ${reason}`);
+		}
+		if (Date.now() + options.pollInterval * 1000 > deadline) {
+			throw new Error(
+				`File ${fileId} was not processed within ${options.timeout} seconds (status: ${status || 'unknown'})`
+			);
+		}
+		await sleep(options.pollInterval * 1000);
+	}
+}
+
+/**
+ * Split a comma-separated list of file IDs
+ */
+export function parseFileIds(fileIds: string): string[] {
+	return fileIds
+		.split(',')
+		.map(id => id.trim())
+		.filter(id => id);
+}
+
+/**
+ * Build the user turn of a `/document-chat/responses` request
+ */
+export function buildDocumentChatInput(
+	fileIds: string[],
+	query: string
+): IDataObject {
+	return {
+		role: 'user',
+		content: [
+			...fileIds.map(fileId => ({ type: 'input_file', file_id: fileId })),
+			{ type: 'input_text', text: query },
+		],
+	};
+}
+
+function getOutputTextParts(response: any): any[] {
+	const output: any[] = Array.isArray(response?.output) ? response.output : [];
+	return output
+		.filter(item => item?.type === 'message')
+		.flatMap(item => (Array.isArray(item.content) ? item.content : []))
+		.filter(part => typeof part?.text === 'string');
+}
+
+/**
+ * Text of the assistant message in a Document Chat response
+ */
+export function getResponseText(response: any): string {
+	return getOutputTextParts(response)
+		.map(part => part.text as string)
+		.join('');
+}
+
+/**
+ * Reasoning summary of a Document Chat response, empty if none was requested
+ */
+export function getResponseReasoning(response: any): string {
+	const output: any[] = Array.isArray(response?.output) ? response.output : [];
+	return output
+		.filter(item => item?.type === 'reasoning')
+		.flatMap(item => (Array.isArray(item.summary) ? item.summary : []))
+		.map(part => (typeof part === 'string' ? part : (part?.text ?? '')))
+		.filter(text => text)
+		.join('\n\n');
+}
+
+/**
+ * Rebuild a Document Chat response from the SSE events of a streamed request.
+ * The final `response.completed` payload is used when the API sends one; otherwise
+ * the output is assembled from the text, reasoning and annotation deltas.
+ */
+export async function aggregateDocumentChatStream(
+	stream: AsyncIterable<Buffer | string>
+): Promise<any> {
+	let completed: any;
+	let id: string | undefined;
+	let model: string | undefined;
+	let conversation: IDataObject | undefined;
+	let usage: IDataObject | undefined;
+	let text = '';
+	let reasoning = '';
+	const annotations: IDataObject[] = [];
+
+	for await (const sseEvent of parseSseStream(stream)) {
+		if (sseEvent.data === '[DONE]') break;
+
+		let data: any;
+		try {
+			data = JSON.parse(sseEvent.data);
+		} catch (e) {
+			throw new Error(`Invalid JSON in stream event: ${sseEvent.data}`);
+		}
+
+		const type = data.type ?? sseEvent.event;
+		if (type === 'error' || type === 'response.failed' || data.error) {
+			const error = data.error ?? data.response?.error ?? data;
+			throw new Error(error.message || JSON.stringify(error));
+		}
+
+		const payload = data.response ?? data;
+		id = id ?? payload.id;
+		model = model ?? payload.model;
+		conversation =
+			payload.conversation ??
+			(data.conversation_id ? { id: data.conversation_id } : conversation);
+		if (payload.usage) usage = payload.usage;
+
+		if (type === 'response.output_text.delta' && data.delta) {
+			text += data.delta;
+		} else if (type === 'response.reasoning_summary_text.delta' && data.delta) {
+			reasoning += data.delta;
+		} else if (
+			type === 'response.output_text.annotation.added' &&
+			data.annotation
+		) {
+			annotations.push(data.annotation);
+		} else if (type === 'response.completed' && data.response) {
+			completed = data.response;
+		}
+	}
+
+	if (completed?.output?.length) {
+		return {
+			...completed,
+			conversation: completed.conversation ?? conversation,
+			usage: completed.usage ?? usage,
+		};
+	}
+
+	return {
+		id,
+		model,
+		conversation,
+		usage,
+		output: [
+			...(reasoning
+				? [
+						{
+							type: 'reasoning',
+							summary: [{ type: 'summary_text', text: reasoning }],
+						},
+					]
+				: []),
+			{
+				type: 'message',
+				role: 'assistant',
+				content: [{ type: 'output_text', text, annotations }],
+			},
+		],
+	};
+}
+
+function toNumber(value: unknown): number | undefined {
+	const number = typeof value === 'string' ? parseInt(value, 10) : value;
+	return typeof number === 'number' && Number.isFinite(number)
+		? number
+		: undefined;
+}
+
+/**
+ * Citations from the annotations of the assistant message. Offsets are relative to
+ * the text returned by `getResponseText`.
+ */
+export function getResponseCitations(response: any): DocumentChatCitation[] {
+	const citations: DocumentChatCitation[] = [];
+	let offset = 0;
+
+	for (const part of getOutputTextParts(response)) {
+		const annotations: any[] = Array.isArray(part.annotations)
+			? part.annotations
+			: [];
+		for (const annotation of annotations) {
+			const startIndex = toNumber(annotation.start_index ?? annotation.index);
+			const endIndex = toNumber(annotation.end_index);
+			const citation: DocumentChatCitation = {
+				fileId: annotation.file_id ?? annotation.file?.id,
+				fileName: annotation.filename ?? annotation.file_name,
+				page: toNumber(
+					annotation.page ?? annotation.page_number ?? annotation.pages?.[0]
+				),
+				quote: annotation.quote ?? annotation.text,
+				startIndex: startIndex !== undefined ? startIndex + offset : undefined,
+				endIndex: endIndex !== undefined ? endIndex + offset : undefined,
+			};
+			citations.push(
+				Object.fromEntries(
+					Object.entries(citation).filter(([, value]) => value !== undefined)
+				) as DocumentChatCitation
+			);
+		}
+		offset += (part.text as string).length;
+	}
+
+	return citations;
+}
+
+function describeCitation(citation: DocumentChatCitation): string {
+	const source = citation.fileName ?? citation.fileId ?? 'document';
+	const page = citation.page !== undefined ? `, page ${citation.page}` : '';
+	const quote = citation.quote ? `: "${citation.quote}"` : '';
+	return `${source}${page}${quote}`;
+}
+
+/**
+ * Render citations as numbered footnotes. Markers are inserted where the cited span
+ * ends when offsets are known, and the sources are listed below the text.
+ * Citations of the same source and quote share one number.
+ */
+export function addCitationFootnotes(
+	text: string,
+	citations: DocumentChatCitation[]
+): string {
+	if (citations.length === 0) return text;
+
+	const footnotes: string[] = [];
+	const markers: Array<{ position: number; marker: string }> = [];
+	for (const citation of citations) {
+		const description = describeCitation(citation);
+		let number = footnotes.indexOf(description) + 1;
+		if (number === 0) number = footnotes.push(description);
+
+		const position = citation.endIndex;
+		if (position !== undefined && position >= 0 && position <= text.length) {
+			markers.push({ position, marker: `[${number}]` });
+		}
+	}
+
+	// Insert from the end so earlier offsets stay valid
+	let result = text;
+	for (const { position, marker } of markers.sort(
+		(a, b) => b.position - a.position || b.marker.localeCompare(a.marker)
+	)) {
+		if (result.slice(position, position + marker.length) === marker) continue;
+		result = result.slice(0, position) + marker + result.slice(position);
+	}
+
+	return `${result}\n\nSources:\n${footnotes
+		.map((footnote, index) => `[${index + 1}] ${footnote}`)
+		.join('\n')}`;
+}
@@ -0,0 +1,307 @@
+import { sleep } from 'n8n-workflow';
+
+import type { UpstageClient } from './UpstageClient';
+
+export interface DocumentParsingContent {
+	html?: string;
+	markdown?: string;
+	text?: string;
+}
+
+export interface DocumentParsingElement {
+	id?: number;
+	category?: string;
+	page?: number;
+	content?: DocumentParsingContent;
+	coordinates?: Array<{ x: number; y: number }>;
+	base64_encoding?: string;
+	[key: string]: any;
+}
+
+export interface DocumentParsingResponse {
+	api?: string;
+	model?: string;
+	content?: DocumentParsingContent;
+	elements?: DocumentParsingElement[];
+	usage?: { pages?: number };
+	[key: string]: any;
+}
+
+export interface AsyncBatch {
+	id?: number;
+	status?: string;
+	start_page?: number;
+	end_page?: number;
+	download_url?: string;
+	failure_message?: string;
+}
+
+export interface AsyncRequestStatus {
+	id?: string;
+	status?: string;
+	model?: string;
+	failure_message?: string;
+	total_pages?: number;
+	completed_pages?: number;
+	batches?: AsyncBatch[];
+}
+
+export interface WaitForDigitizationOptions {
+	/** Seconds between two status checks */
+	pollInterval: number;
+	/** Maximum number of seconds to wait for the request to finish */
+	timeout: number;
+}
+
+const CONTENT_FORMATS = ['html', 'markdown', 'text'] as const;
+
+/**
+ * Poll an async document digitization request until it completes.
+ * Throws if the request fails or does not finish within the timeout.
+ */
+export async function waitForDigitization(
+	client: UpstageClient,
+	requestId: string,
+	options: WaitForDigitizationOptions
+): Promise<AsyncRequestStatus> {
+	const deadline = Date.now() + options.timeout * 1000;
+
+	for (;;) {
+		const status = (await client.getDigitizationRequest(
+			requestId
+		)) as AsyncRequestStatus;
+
+		if (status?.status === 'completed') return status;
+		if (status?.status === 'failed') {
+			throw new Error(
+				`Async request ${requestId} failed: ${status.failure_message || 'unknown reason'}`
+			);
+		}
+		if (Date.now() + options.pollInterval * 1000 > deadline) {
+			throw new Error(
+				`Async request ${requestId} did not complete within ${options.timeout} seconds (status: ${status?.status ?? 'unknown'}, pages: ${status?.completed_pages ?? 0}/${status?.total_pages ?? '?'})`
+			);
+		}
+		await sleep(options.pollInterval * 1000);
+	}
+}
+
+/**
+ * Merge per-batch results into a single response shaped like the sync API response.
+ * Pages are shifted to document numbering and element IDs renumbered across batches.
+ */
+export function mergeBatchResults(
+	batches: Array<{ batch: AsyncBatch; result: DocumentParsingResponse }>
+): DocumentParsingResponse {
+	const sorted = [...batches].sort(
+		(a, b) => (a.batch.start_page ?? 0) - (b.batch.start_page ?? 0)
+	);
+
+	const elements: DocumentParsingElement[] = [];
+	const content: Record<string, string[]> = {
+		html: [],
+		markdown: [],
+		text: [],
+	};
+	let pages = 0;
+
+	for (const { batch, result } of sorted) {
+		const batchElements = result?.elements ?? [];
+		const startPage = batch.start_page ?? 1;
+
+		// Batch results number pages from 1; only shift them if they are batch-relative
+		const minPage = Math.min(
+			...batchElements.map(element => element.page ?? startPage)
+		);
+		const pageOffset = minPage < startPage ? startPage - 1 : 0;
+
+		for (const element of batchElements) {
+			elements.push({
+				...element,
+				id: elements.length,
+				page:
+					element.page !== undefined ? element.page + pageOffset : undefined,
+			});
+		}
+
+		for (const format of CONTENT_FORMATS) {
+			const value = result?.content?.[format];
+			if (value) content[format].push(value);
+		}
+
+		pages += result?.usage?.pages ?? 0;
+	}
+
+	const first = sorted[0]?.result ?? {};
+	const merged: DocumentParsingResponse = {
+		api: first.api,
+		model: first.model,
+		content: {},
+		elements,
+		usage: { pages },
+	};
+	for (const format of CONTENT_FORMATS) {
+		merged.content![format] = content[format].join('\n');
+	}
+	return merged;
+}
+
+/**
+ * Download every batch of a completed async request and merge them
+ */
+export async function downloadDigitizationResults(
+	client: UpstageClient,
+	status: AsyncRequestStatus
+): Promise<DocumentParsingResponse> {
+	const batches = status.batches ?? [];
+	const results: Array<{ batch: AsyncBatch; result: DocumentParsingResponse }> =
+		[];
+
+	for (const batch of batches) {
+		if (batch.status === 'failed') {
+			throw new Error(
+				`Batch ${batch.id ?? '?'} (pages ${batch.start_page}-${batch.end_page}) failed: ${batch.failure_message || 'unknown reason'}`
+			);
+		}
+		if (!batch.download_url) {
+			throw new Error(
+				`Batch ${batch.id ?? '?'} (pages ${batch.start_page}-${batch.end_page}) has no download URL yet`
+			);
+		}
+		const result = (await client.downloadDigitizationResult(
+			batch.download_url
+		)) as DocumentParsingResponse;
+		results.push({ batch, result });
+	}
+
+	const merged = mergeBatchResults(results);
+	if (!merged.model && status.model) merged.model = status.model;
+	return merged;
+}
+
+/**
+ * Join the content of several elements, per format, the way the API builds `content`
+ */
+export function joinElementContent(
+	elements: DocumentParsingElement[]
+): DocumentParsingContent {
+	const content: DocumentParsingContent = {};
+	for (const format of CONTENT_FORMATS) {
+		const values = elements
+			.map(element => element.content?.[format])
+			.filter((value): value is string => typeof value === 'string');
+		if (values.length > 0) content[format] = values.join('\n');
+	}
+	return content;
+}
+
+/**
+ * Group elements by page number, in page order
+ */
+export function groupElementsByPage(
+	elements: DocumentParsingElement[]
+): Array<{ page: number; elements: DocumentParsingElement[] }> {
+	const pages = new Map<number, DocumentParsingElement[]>();
+	for (const element of elements) {
+		const page = element.page ?? 1;
+		if (!pages.has(page)) pages.set(page, []);
+		pages.get(page)!.push(element);
+	}
+	return [...pages.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([page, pageElements]) => ({ page, elements: pageElements }));
+}
+
+export interface ImageCrop {
+	propertyName: string;
+	fileName: string;
+	mimeType: string;
+	data: Buffer;
+}
+
+function detectImageMimeType(data: Buffer): {
+	mimeType: string;
+	extension: string;
+} {
+	if (data.subarray(0, 4).toString('hex') === '89504e47') {
+		return { mimeType: 'image/png', extension: 'png' };
+	}
+	if (data.subarray(0, 3).toString('hex') === 'ffd8ff') {
+		return { mimeType: 'image/jpeg', extension: 'jpg' };
+	}
+	if (data.subarray(0, 4).toString('ascii') === 'GIF8') {
+		return { mimeType: 'image/gif', extension: 'gif' };
+	}
+	if (
+		data.subarray(0, 4).toString('ascii') === 'RIFF' &&
+		data.subarray(8, 12).toString('ascii') === 'WEBP'
+	) {
+		return { mimeType: 'image/webp', extension: 'webp' };
+	}
+	return { mimeType: 'image/png', extension: 'png' };
+}
+
+/**
+ * Take the base64 image crops out of the elements.
+ * Returns a copy of the response where each cropped element references its image
+ * through `binary_property` (e.g. `figure_0`) instead of carrying the base64 string.
+ */
+export function extractImageCrops(response: DocumentParsingResponse): {
+	response: DocumentParsingResponse;
+	crops: Map<DocumentParsingElement, ImageCrop>;
+} {
+	const crops = new Map<DocumentParsingElement, ImageCrop>();
+	const counters: Record<string, number> = {};
+
+	const elements = (response?.elements ?? []).map(element => {
+		if (
+			typeof element.base64_encoding !== 'string' ||
+			!element.base64_encoding
+		) {
+			return element;
+		}
+
+		const { base64_encoding: base64, ...rest } = element;
+		const category = (element.category || 'image').replace(/[^\w-]/g, '_');
+		const index = counters[category] ?? 0;
+		counters[category] = index + 1;
+
+		const data = Buffer.from(base64.replace(/^data:[^,]*,/, ''), 'base64');
+		const { mimeType, extension } = detectImageMimeType(data);
+		const propertyName = `${category}_${index}`;
+		const stripped: DocumentParsingElement = {
+			...rest,
+			binary_property: propertyName,
+		};
+
+		crops.set(stripped, {
+			propertyName,
+			fileName: `${category}_${index}_page_${element.page ?? 1}.${extension}`,
+			mimeType,
+			data,
+		});
+		return stripped;
+	});
+
+	return { response: { ...response, elements }, crops };
+}
+
+/**
+ * Map page numbers of a response for an extracted part of a document back to the
+ * original document, where `pages[n - 1]` is the original number of page n
+ */
+export function remapPages(
+	response: DocumentParsingResponse,
+	pages: number[]
+): DocumentParsingResponse {
+	return {
+		...response,
+		elements: (response?.elements ?? []).map(element => ({
+			...element,
+			page:
+				element.page !== undefined
+					? (pages[element.page - 1] ?? element.page)
+					: undefined,
+		})),
+	};
+}
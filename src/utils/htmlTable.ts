@@ -0,0 +1,212 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export interface ParsedTable {
+	headers: string[];
+	rows: string[][];
+}
+
+export type HeaderMode = 'auto' | 'firstRow' | 'none';
+
+interface RawCell {
+	text: string;
+	isHeader: boolean;
+	rowSpan: number;
+	colSpan: number;
+}
+
+interface RawRow {
+	cells: RawCell[];
+	inHead: boolean;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+		if (entity[0] === '#') {
+			const code =
+				entity[1].toLowerCase() === 'x'
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+			return Number.isNaN(code) ? match : String.fromCodePoint(code);
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+function cellText(html: string): string {
+	const text = html
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(p|div|li)>/gi, '\n')
+		.replace(/<[^>]+>/g, '');
+	return decodeEntities(text)
+		.split('\n')
+		.map(line => line.replace(/\s+/g, ' ').trim())
+		.filter(line => line !== '')
+		.join('\n');
+}
+
+function getSpan(attributes: string, name: string): number {
+	const match = new RegExp(`${name}\\s*=\\s*["']?(\\d+)`, 'i').exec(attributes);
+	const span = match ? parseInt(match[1], 10) : 1;
+	return span > 0 ? span : 1;
+}
+
+function readRows(html: string): RawRow[] {
+	const rows: RawRow[] = [];
+	const headRanges: Array<[number, number]> = [];
+	const headPattern = /<thead\b[^>]*>([\s\S]*?)<\/thead>/gi;
+	for (
+		let match = headPattern.exec(html);
+		match;
+		match = headPattern.exec(html)
+	) {
+		headRanges.push([match.index, match.index + match[0].length]);
+	}
+
+	const rowPattern =
+		/<tr\b[^>]*>([\s\S]*?)(?:<\/tr>|(?=<tr\b)|(?=<\/table>))/gi;
+	for (let row = rowPattern.exec(html); row; row = rowPattern.exec(html)) {
+		const cells: RawCell[] = [];
+		const cellPattern =
+			/<(td|th)\b([^>]*)>([\s\S]*?)(?:<\/\1>|(?=<t[dh]\b)|$)/gi;
+		for (
+			let cell = cellPattern.exec(row[1]);
+			cell;
+			cell = cellPattern.exec(row[1])
+		) {
+			cells.push({
+				text: cellText(cell[3]),
+				isHeader: cell[1].toLowerCase() === 'th',
+				rowSpan: getSpan(cell[2], 'rowspan'),
+				colSpan: getSpan(cell[2], 'colspan'),
+			});
+		}
+		const position = row.index;
+		rows.push({
+			cells,
+			inHead: headRanges.some(
+				([start, end]) => position >= start && position < end
+			),
+		});
+	}
+	return rows;
+}
+
+// Lay the cells out on a grid, copying spanned cells into every slot they cover
+function expandSpans(rows: RawRow[]): Array<Array<RawCell | undefined>> {
+	const grid: Array<Array<RawCell | undefined>> = rows.map(() => []);
+
+	rows.forEach((row, rowIndex) => {
+		let column = 0;
+		for (const cell of row.cells) {
+			while (grid[rowIndex][column] !== undefined) column++;
+			for (let r = 0; r < cell.rowSpan && rowIndex + r < rows.length; r++) {
+				for (let c = 0; c < cell.colSpan; c++) {
+					grid[rowIndex + r][column + c] = cell;
+				}
+			}
+			column += cell.colSpan;
+		}
+	});
+
+	return grid;
+}
+
+function uniqueHeaders(headers: string[]): string[] {
+	const seen = new Map<string, number>();
+	return headers.map((header, index) => {
+		const name = header || `column_${index + 1}`;
+		const count = seen.get(name) ?? 0;
+		seen.set(name, count + 1);
+		return count === 0 ? name : `${name}_${count + 1}`;
+	});
+}
+
+/**
+ * Parse the first HTML table into a header row and data rows.
+ * Row and column spans are expanded so every row has the same number of cells.
+ * With `auto`, rows inside `<thead>` or leading rows made only of `<th>` cells form the header,
+ * falling back to the first row. Stacked header rows are joined with " / ".
+ */
+export function parseHtmlTable(
+	html: string,
+	headerMode: HeaderMode = 'auto'
+): ParsedTable {
+	const tableMatch = /<table\b[\s\S]*?<\/table>/i.exec(html);
+	const rows = readRows(tableMatch ? tableMatch[0] : html);
+	const grid = expandSpans(rows);
+	const width = Math.max(0, ...grid.map(row => row.length));
+
+	let headerCount = 0;
+	if (headerMode === 'firstRow') {
+		headerCount = Math.min(1, grid.length);
+	} else if (headerMode === 'auto') {
+		while (
+			headerCount < grid.length - 1 &&
+			(rows[headerCount].inHead ||
+				(rows[headerCount].cells.length > 0 &&
+					rows[headerCount].cells.every(cell => cell.isHeader)))
+		) {
+			headerCount++;
+		}
+		if (headerCount === 0 && grid.length > 1) headerCount = 1;
+	}
+
+	const texts = grid.map(row =>
+		Array.from({ length: width }, (_, column) => row[column]?.text ?? '')
+	);
+
+	let headers: string[];
+	if (headerCount === 0) {
+		headers = Array.from(
+			{ length: width },
+			(_, column) => `column_${column + 1}`
+		);
+	} else {
+		headers = Array.from({ length: width }, (_, column) => {
+			const parts: string[] = [];
+			for (let r = 0; r < headerCount; r++) {
+				const text = texts[r][column];
+				if (text && parts[parts.length - 1] !== text) parts.push(text);
+			}
+			return parts.join(' / ');
+		});
+	}
+
+	return {
+		headers: uniqueHeaders(headers),
+		rows: texts.slice(headerCount),
+	};
+}
+
+/**
+ * Convert a parsed table into one object per row, keyed by header
+ */
+export function tableToRecords(table: ParsedTable): IDataObject[] {
+	return table.rows.map(row =>
+		Object.fromEntries(
+			table.headers.map((header, index) => [header, row[index]])
+		)
+	);
+}
+
+function escapeCsvValue(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize a parsed table as CSV, header row first
+ */
+export function tableToCsv(table: ParsedTable): string {
+	return [table.headers, ...table.rows]
+		.map(row => row.map(escapeCsvValue).join(','))
+		.join('\r\n');
+}
@@ -0,0 +1,243 @@
+/**
+ * Minimal JSON Schema validator covering the keywords used for structured outputs:
+ * type, enum, const, properties, required, additionalProperties, items,
+ * string/number/array bounds, pattern, allOf/anyOf/oneOf/not and local $ref.
+ * Returns a list of human readable errors; an empty list means the value is valid.
+ */
+
+type JsonSchema = Record<string, any> | boolean;
+
+function getType(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') {
+		return Number.isInteger(value) ? 'integer' : 'number';
+	}
+	return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	const actual = getType(value);
+	if (type === 'number') return actual === 'number' || actual === 'integer';
+	return actual === type;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Resolve a local reference such as "#/$defs/item" against the root schema
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+	if (!ref.startsWith('#')) {
+		throw new Error(`Only local $ref values are supported, got "${ref}"`);
+	}
+	const segments = ref
+		.slice(1)
+		.split('/')
+		.filter(segment => segment !== '')
+		.map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+	let current: any = root;
+	for (const segment of segments) {
+		current = current?.[segment];
+		if (current === undefined) {
+			throw new Error(`Could not resolve $ref "${ref}"`);
+		}
+	}
+	return current;
+}
+
+function validateNode(
+	value: unknown,
+	schema: JsonSchema,
+	root: JsonSchema,
+	path: string,
+	errors: string[]
+): void {
+	if (schema === true) return;
+	if (schema === false) {
+		errors.push(`${path}: no value is allowed here`);
+		return;
+	}
+
+	if (typeof schema.$ref === 'string') {
+		validateNode(value, resolveRef(schema.$ref, root), root, path, errors);
+		return;
+	}
+
+	if (schema.type !== undefined) {
+		const types: string[] = Array.isArray(schema.type)
+			? schema.type
+			: [schema.type];
+		if (!types.some(type => matchesType(value, type))) {
+			errors.push(
+				`${path}: expected ${types.join(' or ')}, got ${getType(value)}`
+			);
+			return;
+		}
+	}
+
+	if (
+		Array.isArray(schema.enum) &&
+		!schema.enum.some((e: unknown) => isEqual(e, value))
+	) {
+		errors.push(
+			`${path}: must be one of ${schema.enum.map((e: unknown) => JSON.stringify(e)).join(', ')}`
+		);
+	}
+
+	if ('const' in schema && !isEqual(schema.const, value)) {
+		errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+	}
+
+	if (typeof value === 'string') {
+		if (
+			typeof schema.minLength === 'number' &&
+			value.length < schema.minLength
+		) {
+			errors.push(`${path}: must have at least ${schema.minLength} characters`);
+		}
+		if (
+			typeof schema.maxLength === 'number' &&
+			value.length > schema.maxLength
+		) {
+			errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+		}
+		if (
+			typeof schema.pattern === 'string' &&
+			!new RegExp(schema.pattern).test(value)
+		) {
+			errors.push(`${path}: must match pattern ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (typeof schema.minimum === 'number' && value < schema.minimum) {
+			errors.push(`${path}: must be >= ${schema.minimum}`);
+		}
+		if (typeof schema.maximum === 'number' && value > schema.maximum) {
+			errors.push(`${path}: must be <= ${schema.maximum}`);
+		}
+		if (
+			typeof schema.exclusiveMinimum === 'number' &&
+			value <= schema.exclusiveMinimum
+		) {
+			errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+		}
+		if (
+			typeof schema.exclusiveMaximum === 'number' &&
+			value >= schema.exclusiveMaximum
+		) {
+			errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+			errors.push(`${path}: must have at least ${schema.minItems} items`);
+		}
+		if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+			errors.push(`${path}: must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items !== undefined && !Array.isArray(schema.items)) {
+			value.forEach((entry, index) =>
+				validateNode(entry, schema.items, root, `${path}[${index}]`, errors)
+			);
+		}
+	}
+
+	if (getType(value) === 'object') {
+		const object = value as Record<string, unknown>;
+		const properties: Record<string, JsonSchema> = schema.properties ?? {};
+
+		if (Array.isArray(schema.required)) {
+			for (const key of schema.required) {
+				if (!(key in object)) {
+					errors.push(`${path}: missing required property "${key}"`);
+				}
+			}
+		}
+
+		for (const [key, propertyValue] of Object.entries(object)) {
+			const propertyPath = `${path}.${key}`;
+			if (key in properties) {
+				validateNode(
+					propertyValue,
+					properties[key],
+					root,
+					propertyPath,
+					errors
+				);
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}: unexpected property "${key}"`);
+			} else if (
+				schema.additionalProperties !== undefined &&
+				schema.additionalProperties !== true
+			) {
+				validateNode(
+					propertyValue,
+					schema.additionalProperties,
+					root,
+					propertyPath,
+					errors
+				);
+			}
+		}
+	}
+
+	if (Array.isArray(schema.allOf)) {
+		for (const subSchema of schema.allOf) {
+			validateNode(value, subSchema, root, path, errors);
+		}
+	}
+
+	if (Array.isArray(schema.anyOf)) {
+		const matches = schema.anyOf.some(
+			(subSchema: JsonSchema) =>
+				validateJsonSchemaNode(value, subSchema, root, path).length === 0
+		);
+		if (!matches) {
+			errors.push(`${path}: must match at least one schema in anyOf`);
+		}
+	}
+
+	if (Array.isArray(schema.oneOf)) {
+		const matchCount = schema.oneOf.filter(
+			(subSchema: JsonSchema) =>
+				validateJsonSchemaNode(value, subSchema, root, path).length === 0
+		).length;
+		if (matchCount !== 1) {
+			errors.push(
+				`${path}: must match exactly one schema in oneOf (matched ${matchCount})`
+			);
+		}
+	}
+
+	if (
+		schema.not !== undefined &&
+		validateJsonSchemaNode(value, schema.not, root, path).length === 0
+	) {
+		errors.push(`${path}: must not match the schema in "not"`);
+	}
+}
+
+function validateJsonSchemaNode(
+	value: unknown,
+	schema: JsonSchema,
+	root: JsonSchema,
+	path: string
+): string[] {
+	const errors: string[] = [];
+	validateNode(value, schema, root, path, errors);
+	return errors;
+}
+
+/**
+ * Validate a value against a JSON schema
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: JsonSchema
+): string[] {
+	return validateJsonSchemaNode(value, schema, schema, '$');
+}
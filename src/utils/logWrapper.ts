@@ -1,6 +1,11 @@
+import { BaseDocumentLoader } from '@langchain/core/document_loaders/base';
+import { BaseDocumentTransformer } from '@langchain/core/documents';
+import type { Document } from '@langchain/core/documents';
 import { Embeddings } from '@langchain/core/embeddings';
+import { Tool } from '@langchain/core/tools';
 import {
 	IExecuteFunctions,
+	INodeExecutionData,
 	ISupplyDataFunctions,
 	NodeConnectionType,
 	NodeOperationError,
@@ -31,7 +36,9 @@ export async function callMethodAsync<T>(
 	}
 }
 
-export function logWrapper<T extends Embeddings>(
+export function logWrapper<
+	T extends Embeddings | BaseDocumentLoader | BaseDocumentTransformer | Tool,
+>(
 	originalInstance: T,
 	executeFunctions: IExecuteFunctions | ISupplyDataFunctions
 ): T {
@@ -86,6 +93,150 @@ export function logWrapper<T extends Embeddings>(
 				}
 			}
 
+			// ========== Document Loaders ==========
+			if (originalInstance instanceof BaseDocumentLoader) {
+				// All input items -> Documents
+				if ((prop === 'processAll' || prop === 'load') && prop in target) {
+					return async (items?: INodeExecutionData[]): Promise<Document[]> => {
+						const connectionType = 'ai_document';
+						const inputItems = items ?? executeFunctions.getInputData();
+						const { index } = executeFunctions.addInputData(connectionType, [
+							inputItems,
+						]);
+
+						const response = (await callMethodAsync.call(target, {
+							executeFunctions,
+							connectionType,
+							currentNodeRunIndex: index,
+							method: (target as any)[prop] as (
+								...args: any[]
+							) => Promise<Document[]>,
+							arguments: items ? [items] : [],
+						})) as Document[];
+
+						logAiEvent(executeFunctions, 'ai-documents-loaded');
+						executeFunctions.addOutputData(connectionType, index, [
+							[{ json: { response } }],
+						]);
+						return response;
+					};
+				}
+				// Single input item -> Documents
+				if (prop === 'processItem' && 'processItem' in target) {
+					return async (
+						item: INodeExecutionData,
+						itemIndex: number
+					): Promise<Document[]> => {
+						const connectionType = 'ai_document';
+						const { index } = executeFunctions.addInputData(connectionType, [
+							[item],
+						]);
+
+						const response = (await callMethodAsync.call(target, {
+							executeFunctions,
+							connectionType,
+							currentNodeRunIndex: index,
+							method: (target as any)[prop] as (
+								...args: any[]
+							) => Promise<Document[]>,
+							arguments: [item, itemIndex],
+						})) as Document[];
+
+						logAiEvent(executeFunctions, 'ai-documents-loaded');
+						executeFunctions.addOutputData(connectionType, index, [
+							[{ json: { response }, pairedItem: { item: itemIndex } }],
+						]);
+						return response;
+					};
+				}
+			}
+
+			// ========== Text Splitters ==========
+			if (originalInstance instanceof BaseDocumentTransformer) {
+				// Documents -> Chunks
+				if (
+					(prop === 'splitDocuments' || prop === 'transformDocuments') &&
+					prop in target
+				) {
+					return async (documents: Document[]): Promise<Document[]> => {
+						const connectionType = 'ai_textSplitter';
+						const { index } = executeFunctions.addInputData(connectionType, [
+							[{ json: { documents } }],
+						]);
+
+						const response = (await callMethodAsync.call(target, {
+							executeFunctions,
+							connectionType,
+							currentNodeRunIndex: index,
+							method: (target as any)[prop] as (
+								...args: any[]
+							) => Promise<Document[]>,
+							arguments: [documents],
+						})) as Document[];
+
+						logAiEvent(executeFunctions, 'ai-text-split');
+						executeFunctions.addOutputData(connectionType, index, [
+							[{ json: { response } }],
+						]);
+						return response;
+					};
+				}
+				// Text -> Chunks
+				if (prop === 'splitText' && 'splitText' in target) {
+					return async (text: string): Promise<string[]> => {
+						const connectionType = 'ai_textSplitter';
+						const { index } = executeFunctions.addInputData(connectionType, [
+							[{ json: { textSplitter: text } }],
+						]);
+
+						const response = (await callMethodAsync.call(target, {
+							executeFunctions,
+							connectionType,
+							currentNodeRunIndex: index,
+							method: (target as any)[prop] as (
+								...args: any[]
+							) => Promise<string[]>,
+							arguments: [text],
+						})) as string[];
+
+						logAiEvent(executeFunctions, 'ai-text-split');
+						executeFunctions.addOutputData(connectionType, index, [
+							[{ json: { response } }],
+						]);
+						return response;
+					};
+				}
+			}
+
+			// ========== Tools ==========
+			if (originalInstance instanceof Tool) {
+				// Query -> Tool result
+				if (prop === '_call' && '_call' in target) {
+					return async (query: string): Promise<string> => {
+						const connectionType = 'ai_tool';
+						const { index } = executeFunctions.addInputData(connectionType, [
+							[{ json: { query } }],
+						]);
+
+						const response = (await callMethodAsync.call(target, {
+							executeFunctions,
+							connectionType,
+							currentNodeRunIndex: index,
+							method: (target as any)[prop] as (
+								...args: any[]
+							) => Promise<string>,
+							arguments: [query],
+						})) as string;
+
+						logAiEvent(executeFunctions, 'ai-tool-called', { query, response });
+						executeFunctions.addOutputData(connectionType, index, [
+							[{ json: { response } }],
+						]);
+						return response;
+					};
+				}
+			}
+
 			// eslint-disable-next-line @typescript-eslint/no-unsafe-return
 			return (target as any)[prop];
 		},
@@ -0,0 +1,49 @@
+export interface MultipartFile {
+	buffer: Buffer;
+	filename: string;
+	contentType: string;
+}
+
+/**
+ * Create a multipart/form-data body without external dependencies
+ */
+export function createMultipartFormData(
+	fields: Record<string, string>,
+	file: MultipartFile,
+	fileFieldName = 'file'
+): { body: Buffer; contentType: string } {
+	const boundary =
+		'----WebKitFormBoundary' + Math.random().toString(36).substring(2);
+	const parts: Buffer[] = [];
+
+	// Add text fields
+	for (const [name, value] of Object.entries(fields)) {
+		parts.push(
+			Buffer.from(
+				`--${boundary}\r\n` +
+					`Content-Disposition: form-data; name="${name}"\r\n\r\n` +
+					`${value}\r\n`
+			)
+		);
+	}
+
+	// Add file (quotes would terminate the filename parameter early)
+	const filename = file.filename.replace(/"/g, '%22');
+	parts.push(
+		Buffer.from(
+			`--${boundary}\r\n` +
+				`Content-Disposition: form-data; name="${fileFieldName}"; filename="${filename}"\r\n` +
+				`Content-Type: ${file.contentType}\r\n\r\n`
+		)
+	);
+	parts.push(file.buffer);
+	parts.push(Buffer.from('\r\n'));
+
+	// End boundary
+	parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+	return {
+		body: Buffer.concat(parts),
+		contentType: `multipart/form-data; boundary=${boundary}`,
+	};
+}
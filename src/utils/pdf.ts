@@ -0,0 +1,784 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Minimal PDF page extraction without external dependencies.
+ * Reads classic and compressed (object stream) files, rebuilds a page tree with the
+ * selected pages and copies every object they reference. Encrypted files are not supported.
+ */
+
+interface PdfObject {
+	// Dictionary or value before the `stream` keyword
+	head: string;
+	// `stream ... endstream` section, kept byte for byte
+	stream?: string;
+	// Raw data between the end of line after `stream` and the `endstream` keyword
+	data?: string;
+}
+
+interface XrefEntry {
+	// Byte offset of an uncompressed object
+	offset?: number;
+	// Number of the object stream holding a compressed object
+	objectStream?: number;
+}
+
+interface PdfDocument {
+	header: string;
+	objects: Map<number, PdfObject>;
+	rootRef: number;
+}
+
+interface DictEntry {
+	key: string;
+	start: number;
+	valueStart: number;
+	end: number;
+}
+
+const INHERITABLE_KEYS = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+const REF_PATTERN = /(\d+)\s+(\d+)\s+R(?![A-Za-z0-9_])/g;
+const DELIMITERS = '()<>[]{}/%';
+const OBJECT_HEADER_PATTERN = /\s*(\d+)\s+(\d+)\s+obj\b/y;
+const ENDSTREAM_PATTERN = /\s*endstream/y;
+
+function isWhitespace(char: string): boolean {
+	return (
+		char === ' ' ||
+		char === '\n' ||
+		char === '\r' ||
+		char === '\t' ||
+		char === '\f' ||
+		char === '\0'
+	);
+}
+
+function skipWhitespace(text: string, pos: number): number {
+	while (pos < text.length) {
+		if (isWhitespace(text[pos])) {
+			pos++;
+		} else if (text[pos] === '%') {
+			while (pos < text.length && text[pos] !== '\n' && text[pos] !== '\r')
+				pos++;
+		} else {
+			break;
+		}
+	}
+	return pos;
+}
+
+function readToken(text: string, pos: number): number {
+	while (
+		pos < text.length &&
+		!isWhitespace(text[pos]) &&
+		!DELIMITERS.includes(text[pos])
+	) {
+		pos++;
+	}
+	return pos;
+}
+
+function readLiteralString(text: string, pos: number): number {
+	let depth = 0;
+	for (; pos < text.length; pos++) {
+		const char = text[pos];
+		if (char === '\\') {
+			pos++;
+		} else if (char === '(') {
+			depth++;
+		} else if (char === ')') {
+			depth--;
+			if (depth === 0) return pos + 1;
+		}
+	}
+	return pos;
+}
+
+// Return the end index of the value starting at `pos`
+function readValue(text: string, pos: number): number {
+	pos = skipWhitespace(text, pos);
+	const char = text[pos];
+
+	if (char === '<' && text[pos + 1] === '<') {
+		pos += 2;
+		for (;;) {
+			pos = skipWhitespace(text, pos);
+			if (pos >= text.length) return pos;
+			if (text[pos] === '>' && text[pos + 1] === '>') return pos + 2;
+			pos = readValue(text, pos);
+		}
+	}
+	if (char === '[') {
+		pos++;
+		for (;;) {
+			pos = skipWhitespace(text, pos);
+			if (pos >= text.length) return pos;
+			if (text[pos] === ']') return pos + 1;
+			pos = readValue(text, pos);
+		}
+	}
+	if (char === '(') return readLiteralString(text, pos);
+	if (char === '<') {
+		const end = text.indexOf('>', pos);
+		return end === -1 ? text.length : end + 1;
+	}
+	if (char === '/') return readToken(text, pos + 1);
+
+	const end = readToken(text, pos);
+	if (end === pos) return pos + 1;
+
+	// An indirect reference is written as three tokens: "12 0 R"
+	const ref = /^\s+\d+\s+R(?![A-Za-z0-9_])/.exec(text.slice(end, end + 24));
+	if (/^\d+$/.test(text.slice(pos, end)) && ref) return end + ref[0].length;
+	return end;
+}
+
+// List the entries of the dictionary starting at `pos`
+function readDictEntries(
+	text: string,
+	pos = 0
+): { entries: DictEntry[]; end: number } | undefined {
+	pos = skipWhitespace(text, pos);
+	if (!text.startsWith('<<', pos)) return undefined;
+	pos += 2;
+
+	const entries: DictEntry[] = [];
+	for (;;) {
+		pos = skipWhitespace(text, pos);
+		if (pos >= text.length) return { entries, end: pos };
+		if (text.startsWith('>>', pos)) return { entries, end: pos + 2 };
+
+		const start = pos;
+		if (text[pos] !== '/') {
+			pos = readValue(text, pos);
+			continue;
+		}
+		const keyEnd = readToken(text, pos + 1);
+		const valueStart = skipWhitespace(text, keyEnd);
+		const end = readValue(text, valueStart);
+		entries.push({ key: text.slice(pos + 1, keyEnd), start, valueStart, end });
+		pos = end;
+	}
+}
+
+function getDictValue(text: string, key: string): string | undefined {
+	const entry = readDictEntries(text)?.entries.find(e => e.key === key);
+	return entry ? text.slice(entry.valueStart, entry.end) : undefined;
+}
+
+function parseRef(value: string | undefined): number | undefined {
+	const match = value ? /^(\d+)\s+\d+\s+R$/.exec(value.trim()) : null;
+	return match ? parseInt(match[1], 10) : undefined;
+}
+
+function parseRefArray(value: string | undefined): number[] {
+	if (!value) return [];
+	return [...value.matchAll(REF_PATTERN)].map(match => parseInt(match[1], 10));
+}
+
+function parseNumbers(value: string | undefined): number[] {
+	return value ? (value.match(/-?\d+/g) ?? []).map(Number) : [];
+}
+
+// Reverse the PNG predictors (one filter type byte per row) used by xref streams
+function undoPngPredictor(data: Buffer, columns: number): Buffer {
+	const rowLength = columns + 1;
+	const rows = Math.floor(data.length / rowLength);
+	const output = Buffer.alloc(rows * columns);
+
+	for (let row = 0; row < rows; row++) {
+		const type = data[row * rowLength];
+		for (let i = 0; i < columns; i++) {
+			const raw = data[row * rowLength + 1 + i];
+			const left = i > 0 ? output[row * columns + i - 1] : 0;
+			const up = row > 0 ? output[(row - 1) * columns + i] : 0;
+			const upLeft = row > 0 && i > 0 ? output[(row - 1) * columns + i - 1] : 0;
+
+			let value = raw;
+			if (type === 1) value = raw + left;
+			else if (type === 2) value = raw + up;
+			else if (type === 3) value = raw + ((left + up) >> 1);
+			else if (type === 4) {
+				const estimate = left + up - upLeft;
+				const distanceLeft = Math.abs(estimate - left);
+				const distanceUp = Math.abs(estimate - up);
+				const distanceUpLeft = Math.abs(estimate - upLeft);
+				value +=
+					distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft
+						? left
+						: distanceUp <= distanceUpLeft
+							? up
+							: upLeft;
+			}
+			output[row * columns + i] = value & 0xff;
+		}
+	}
+	return output;
+}
+
+// Decoded data of a stream; only Flate compression is supported
+function decodeStream(object: PdfObject): Buffer {
+	const filter = getDictValue(object.head, 'Filter');
+	if (
+		filter &&
+		!/^\/FlateDecode$|^\[\s*\/FlateDecode\s*\]$/.test(filter.trim())
+	) {
+		throw new Error(`Unsupported stream filter ${filter}`);
+	}
+
+	const raw = Buffer.from(object.data ?? '', 'latin1');
+	const data = filter ? inflateSync(raw) : raw;
+
+	const decodeParms = getDictValue(object.head, 'DecodeParms')
+		?.trim()
+		.replace(/^\[\s*|\s*\]$/g, '');
+	const predictor = parseInt(
+		(decodeParms && getDictValue(decodeParms, 'Predictor')) ?? '1',
+		10
+	);
+	if (predictor === 1) return data;
+	if (predictor < 10) {
+		throw new Error(`Unsupported stream predictor ${predictor}`);
+	}
+	const columns = parseInt(getDictValue(decodeParms!, 'Columns') ?? '1', 10);
+	return undoPngPredictor(data, columns);
+}
+
+// Add the objects stored inside an object stream (/Type /ObjStm)
+function readObjectStream(
+	object: PdfObject,
+	objects: Map<number, PdfObject>
+): void {
+	const data = decodeStream(object).toString('latin1');
+	const count = parseInt(getDictValue(object.head, 'N') ?? '0', 10);
+	const first = parseInt(getDictValue(object.head, 'First') ?? '0', 10);
+	const header = data.slice(0, first).trim().split(/\s+/).map(Number);
+
+	for (let i = 0; i < count; i++) {
+		const number = header[i * 2];
+		const start = first + header[i * 2 + 1];
+		const end = i + 1 < count ? first + header[(i + 1) * 2 + 1] : data.length;
+		objects.set(number, { head: data.slice(start, end).trim() });
+	}
+}
+
+/**
+ * Read the indirect object whose body starts at `bodyStart`, with its stream if it has one.
+ * The stream length comes from a direct /Length, because binary data may contain the
+ * `endstream` keyword; the keyword is only searched for when the length is indirect or wrong.
+ */
+function readObjectBody(
+	text: string,
+	bodyStart: number
+): { object: PdfObject; end: number } | undefined {
+	const valueEnd = readValue(text, bodyStart);
+	const head = text.slice(bodyStart, valueEnd).trim();
+	const pos = skipWhitespace(text, valueEnd);
+	if (!text.startsWith('stream', pos)) return { object: { head }, end: pos };
+
+	let dataStart = pos + 'stream'.length;
+	if (text[dataStart] === '\r') dataStart++;
+	if (text[dataStart] === '\n') dataStart++;
+
+	let dataEnd: number | undefined;
+	const length = getDictValue(head, 'Length')?.trim();
+	if (length && /^\d+$/.test(length)) {
+		ENDSTREAM_PATTERN.lastIndex = dataStart + parseInt(length, 10);
+		if (ENDSTREAM_PATTERN.test(text)) {
+			dataEnd = dataStart + parseInt(length, 10);
+		}
+	}
+	if (dataEnd === undefined) {
+		const keyword = text.indexOf('endstream', dataStart);
+		if (keyword === -1) return undefined;
+		dataEnd = keyword;
+		if (text[dataEnd - 1] === '\n') dataEnd--;
+		if (text[dataEnd - 1] === '\r') dataEnd--;
+	}
+
+	const end = text.indexOf('endstream', dataEnd) + 'endstream'.length;
+	return {
+		object: {
+			head,
+			stream: text.slice(pos, end),
+			data: text.slice(dataStart, dataEnd),
+		},
+		end,
+	};
+}
+
+// Read the object at a byte offset from the cross-reference table
+function readObjectAt(
+	text: string,
+	offset: number,
+	number: number
+): PdfObject | undefined {
+	OBJECT_HEADER_PATTERN.lastIndex = offset;
+	const match = OBJECT_HEADER_PATTERN.exec(text);
+	if (!match || parseInt(match[1], 10) !== number) return undefined;
+	return readObjectBody(text, OBJECT_HEADER_PATTERN.lastIndex)?.object;
+}
+
+// Read a classic `xref` table starting after the keyword and return its trailer dictionary.
+// Sections are read newest first, so entries already known are kept.
+function readXrefTable(
+	text: string,
+	pos: number,
+	entries: Map<number, XrefEntry>
+): string {
+	const subsectionPattern = /\s*(\d+)\s+(\d+)/y;
+	const entryPattern = /\s*(\d{10})\s+(\d{5})\s+([nf])/y;
+
+	for (;;) {
+		pos = skipWhitespace(text, pos);
+		if (text.startsWith('trailer', pos)) {
+			const start = skipWhitespace(text, pos + 'trailer'.length);
+			return text.slice(start, readValue(text, start));
+		}
+
+		subsectionPattern.lastIndex = pos;
+		const subsection = subsectionPattern.exec(text);
+		if (!subsection) throw new Error('Invalid xref table');
+		pos = subsectionPattern.lastIndex;
+
+		const first = parseInt(subsection[1], 10);
+		const count = parseInt(subsection[2], 10);
+		for (let i = 0; i < count; i++) {
+			entryPattern.lastIndex = pos;
+			const entry = entryPattern.exec(text);
+			if (!entry) throw new Error('Invalid xref table');
+			pos = entryPattern.lastIndex;
+
+			// Free entries are skipped: hybrid files mark compressed objects as free
+			if (entry[3] === 'n' && !entries.has(first + i)) {
+				entries.set(first + i, { offset: parseInt(entry[1], 10) });
+			}
+		}
+	}
+}
+
+// Read a cross-reference stream (/Type /XRef) and return its dictionary
+function readXrefStream(
+	text: string,
+	offset: number,
+	entries: Map<number, XrefEntry>
+): string {
+	OBJECT_HEADER_PATTERN.lastIndex = offset;
+	const match = OBJECT_HEADER_PATTERN.exec(text);
+	const object =
+		match && readObjectBody(text, OBJECT_HEADER_PATTERN.lastIndex)?.object;
+	if (!object?.data || !/\/Type\s*\/XRef\b/.test(object.head)) {
+		throw new Error('Invalid xref stream');
+	}
+
+	const data = decodeStream(object);
+	const widths = parseNumbers(getDictValue(object.head, 'W'));
+	const size = parseInt(getDictValue(object.head, 'Size') ?? '0', 10);
+	const index = parseNumbers(
+		getDictValue(object.head, 'Index') ?? `[0 ${size}]`
+	);
+	if (widths.length < 3) throw new Error('Invalid xref stream');
+
+	let pos = 0;
+	const readField = (width: number, fallback: number) => {
+		if (width === 0) return fallback;
+		let value = 0;
+		for (let i = 0; i < width; i++) value = value * 256 + data[pos++];
+		return value;
+	};
+
+	for (let i = 0; i + 1 < index.length; i += 2) {
+		for (let number = index[i]; number < index[i] + index[i + 1]; number++) {
+			if (pos + widths[0] + widths[1] + widths[2] > data.length) {
+				throw new Error('Invalid xref stream');
+			}
+			const type = readField(widths[0], 1);
+			const field = readField(widths[1], 0);
+			readField(widths[2], 0);
+
+			if (entries.has(number)) continue;
+			if (type === 1) entries.set(number, { offset: field });
+			else if (type === 2) entries.set(number, { objectStream: field });
+		}
+	}
+	return object.head;
+}
+
+/**
+ * Resolve the objects through the cross-reference sections, following /Prev from the
+ * newest revision, so objects changed by incremental updates use their latest version
+ */
+function readObjectsFromXref(text: string): {
+	objects: Map<number, PdfObject>;
+	trailer: string;
+} {
+	const startxrefMatches = [...text.matchAll(/startxref\s+(\d+)/g)];
+	if (startxrefMatches.length === 0) throw new Error('Missing startxref');
+
+	const entries = new Map<number, XrefEntry>();
+	const visited = new Set<number>();
+	let trailer: string | undefined;
+	let offset: number | undefined = parseInt(
+		startxrefMatches[startxrefMatches.length - 1][1],
+		10
+	);
+
+	while (offset !== undefined && !visited.has(offset)) {
+		visited.add(offset);
+		const pos = skipWhitespace(text, offset);
+		let dict: string;
+		if (text.startsWith('xref', pos)) {
+			dict = readXrefTable(text, pos + 'xref'.length, entries);
+			// Hybrid files list their compressed objects in an additional xref stream
+			const xrefStream = getDictValue(dict, 'XRefStm');
+			if (xrefStream) readXrefStream(text, parseInt(xrefStream, 10), entries);
+		} else {
+			dict = readXrefStream(text, offset, entries);
+		}
+
+		trailer ??= dict;
+		const prev = getDictValue(dict, 'Prev');
+		offset = prev ? parseInt(prev, 10) : undefined;
+	}
+
+	const objects = new Map<number, PdfObject>();
+	for (const [number, entry] of entries) {
+		if (entry.offset === undefined) continue;
+		const object = readObjectAt(text, entry.offset, number);
+		if (!object) throw new Error(`Invalid xref offset of object ${number}`);
+		objects.set(number, object);
+	}
+
+	const objectStreams = new Map<number, Map<number, PdfObject>>();
+	for (const [number, entry] of entries) {
+		if (entry.objectStream === undefined) continue;
+		let compressed = objectStreams.get(entry.objectStream);
+		if (!compressed) {
+			const container = objects.get(entry.objectStream);
+			if (!container) {
+				throw new Error(`Missing object stream ${entry.objectStream}`);
+			}
+			compressed = new Map();
+			readObjectStream(container, compressed);
+			objectStreams.set(entry.objectStream, compressed);
+		}
+		const object = compressed.get(number);
+		if (object) objects.set(number, object);
+	}
+
+	return { objects, trailer: trailer! };
+}
+
+/**
+ * Fallback for files with a broken cross-reference table: scan the file for objects.
+ * Incremental updates are appended, so the definition found last wins, also when it is
+ * stored in an object stream.
+ */
+function scanObjects(text: string): Map<number, PdfObject> {
+	const objects = new Map<number, PdfObject>();
+	const positions = new Map<number, number>();
+	const objectStreams: Array<{ object: PdfObject; position: number }> = [];
+	const objectPattern = /(\d+)\s+(\d+)\s+obj\b/g;
+
+	for (
+		let match = objectPattern.exec(text);
+		match;
+		match = objectPattern.exec(text)
+	) {
+		const body = readObjectBody(text, match.index + match[0].length);
+		if (!body) break;
+
+		const number = parseInt(match[1], 10);
+		objects.set(number, body.object);
+		positions.set(number, match.index);
+		if (body.object.stream && /\/Type\s*\/ObjStm\b/.test(body.object.head)) {
+			objectStreams.push({ object: body.object, position: match.index });
+		}
+		objectPattern.lastIndex = body.end;
+	}
+
+	for (const { object, position } of objectStreams) {
+		const compressed = new Map<number, PdfObject>();
+		readObjectStream(object, compressed);
+		for (const [number, compressedObject] of compressed) {
+			if ((positions.get(number) ?? -1) < position) {
+				objects.set(number, compressedObject);
+				positions.set(number, position);
+			}
+		}
+	}
+	return objects;
+}
+
+function readDocument(buffer: Buffer): PdfDocument {
+	const text = buffer.toString('latin1');
+	if (!text.startsWith('%PDF-')) {
+		throw new Error('The file is not a PDF document');
+	}
+	if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(text)) {
+		throw new Error('Encrypted PDF documents are not supported');
+	}
+
+	const header = /^%PDF-\d\.\d/.exec(text)?.[0] ?? '%PDF-1.7';
+	try {
+		const { objects, trailer } = readObjectsFromXref(text);
+		const rootRef = parseRef(getDictValue(trailer, 'Root'));
+		if (rootRef !== undefined && objects.has(rootRef)) {
+			return { header, objects, rootRef };
+		}
+	} catch (error) {
+		// Damaged cross-reference data, the objects are scanned instead
+	}
+
+	const rootMatches = [...text.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g)];
+	if (rootMatches.length === 0) {
+		throw new Error('Could not find the PDF document catalog');
+	}
+	return {
+		header,
+		objects: scanObjects(text),
+		rootRef: parseInt(rootMatches[rootMatches.length - 1][1], 10),
+	};
+}
+
+interface PageInfo {
+	ref: number;
+	inherited: Record<string, string>;
+}
+
+function getPages(document: PdfDocument): {
+	pages: PageInfo[];
+	treeNodes: Set<number>;
+} {
+	const pages: PageInfo[] = [];
+	const treeNodes = new Set<number>();
+
+	const catalog = document.objects.get(document.rootRef);
+	const pagesRef = parseRef(catalog && getDictValue(catalog.head, 'Pages'));
+	if (pagesRef === undefined) {
+		throw new Error('Could not find the PDF page tree');
+	}
+
+	const visit = (ref: number, inherited: Record<string, string>) => {
+		const node = document.objects.get(ref);
+		if (!node || treeNodes.has(ref)) return;
+		treeNodes.add(ref);
+
+		const type = getDictValue(node.head, 'Type')?.trim();
+		const kids = getDictValue(node.head, 'Kids');
+		if (type === '/Page' || (type !== '/Pages' && kids === undefined)) {
+			pages.push({ ref, inherited });
+			return;
+		}
+
+		const nextInherited = { ...inherited };
+		for (const key of INHERITABLE_KEYS) {
+			const value = getDictValue(node.head, key);
+			if (value !== undefined) nextInherited[key] = value;
+		}
+		for (const kid of parseRefArray(kids)) {
+			visit(kid, nextInherited);
+		}
+	};
+	visit(pagesRef, {});
+
+	return { pages, treeNodes };
+}
+
+/**
+ * Count the pages of a PDF document
+ */
+export function getPdfPageCount(buffer: Buffer): number {
+	return getPages(readDocument(buffer)).pages.length;
+}
+
+/**
+ * Check whether a buffer holds a PDF document
+ */
+export function isPdf(buffer: Buffer, mimeType?: string): boolean {
+	return (
+		mimeType === 'application/pdf' ||
+		buffer.subarray(0, 5).toString('latin1') === '%PDF-'
+	);
+}
+
+/**
+ * Parse a page selection such as "1-3,7,10-" into sorted 1-based page numbers
+ */
+export function parsePageRanges(
+	selection: string,
+	pageCount: number
+): number[] {
+	const pages: number[] = [];
+	for (const part of selection
+		.split(',')
+		.map(p => p.trim())
+		.filter(Boolean)) {
+		const match = /^(\d*)\s*(?:-\s*(\d*))?$/.exec(part);
+		if (!match || (match[1] === '' && match[2] === undefined)) {
+			throw new Error(`Invalid page range "${part}"`);
+		}
+
+		const start = match[1] === '' ? 1 : parseInt(match[1], 10);
+		const end =
+			match[2] === undefined
+				? start
+				: match[2] === ''
+					? pageCount
+					: parseInt(match[2], 10);
+		if (start < 1 || end < start) {
+			throw new Error(`Invalid page range "${part}"`);
+		}
+		if (end > pageCount) {
+			throw new Error(
+				`Page range "${part}" is outside the document (${pageCount} pages)`
+			);
+		}
+
+		for (let page = start; page <= end; page++) {
+			if (!pages.includes(page)) pages.push(page);
+		}
+	}
+	if (pages.length === 0) {
+		throw new Error(`Page selection "${selection}" does not contain any page`);
+	}
+	return pages.sort((a, b) => a - b);
+}
+
+function removeEntry(head: string, key: string): string {
+	const dict = readDictEntries(head);
+	const entry = dict?.entries.find(e => e.key === key);
+	return entry ? head.slice(0, entry.start) + head.slice(entry.end) : head;
+}
+
+function addEntries(head: string, additions: string[]): string {
+	const dict = readDictEntries(head);
+	if (!dict || additions.length === 0) return head;
+	const closeIndex = dict.end - 2;
+	return `${head.slice(0, closeIndex)} ${additions.join(' ')} ${head.slice(closeIndex)}`;
+}
+
+/**
+ * Build a new PDF document that contains only the given 1-based pages, in that order
+ */
+export function extractPdfPages(buffer: Buffer, pageNumbers: number[]): Buffer {
+	const document = readDocument(buffer);
+	const { pages, treeNodes } = getPages(document);
+
+	const selected = pageNumbers.map(pageNumber => {
+		const page = pages[pageNumber - 1];
+		if (!page) {
+			throw new Error(
+				`Page ${pageNumber} is outside the document (${pages.length} pages)`
+			);
+		}
+		return page;
+	});
+
+	// Page objects are rewritten: new parent and inherited attributes made explicit
+	const rewritten = new Map<number, PdfObject>();
+	for (const page of selected) {
+		const object = document.objects.get(page.ref)!;
+		let head = removeEntry(object.head, 'Parent');
+		const missing = Object.entries(page.inherited)
+			.filter(([key]) => getDictValue(head, key) === undefined)
+			.map(([key, value]) => `/${key} ${value}`);
+		head = addEntries(head, missing);
+		rewritten.set(page.ref, { ...object, head });
+	}
+
+	const getObject = (ref: number) =>
+		rewritten.get(ref) ?? document.objects.get(ref);
+
+	// Collect everything the selected pages reference, without walking into other pages
+	const included: number[] = [];
+	const seen = new Set<number>();
+	const queue = selected.map(page => page.ref);
+	while (queue.length > 0) {
+		const ref = queue.shift()!;
+		if (seen.has(ref)) continue;
+		seen.add(ref);
+		const object = getObject(ref);
+		if (!object) continue;
+		included.push(ref);
+		for (const match of object.head.matchAll(REF_PATTERN)) {
+			const target = parseInt(match[1], 10);
+			if (treeNodes.has(target) && !rewritten.has(target)) continue;
+			if (!seen.has(target)) queue.push(target);
+		}
+	}
+
+	// Renumber objects sequentially; 1 is the catalog and 2 the page tree
+	const numbers = new Map<number, number>();
+	included.forEach((ref, index) => numbers.set(ref, index + 3));
+	const renumber = (head: string) =>
+		head.replace(REF_PATTERN, (_, ref) => {
+			const number = numbers.get(parseInt(ref, 10));
+			return number === undefined ? 'null' : `${number} 0 R`;
+		});
+
+	const bodies: string[] = [
+		'<< /Type /Catalog /Pages 2 0 R >>',
+		`<< /Type /Pages /Kids [${selected.map(page => `${numbers.get(page.ref)} 0 R`).join(' ')}] /Count ${selected.length} >>`,
+	];
+	for (const ref of included) {
+		const object = getObject(ref)!;
+		let head = renumber(object.head);
+		if (rewritten.has(ref)) head = addEntries(head, ['/Parent 2 0 R']);
+		bodies.push(object.stream ? `${head}\n${object.stream}` : head);
+	}
+
+	const parts: string[] = [`${document.header}\n%âãÏÓ\n`];
+	const offsets: number[] = [];
+	let offset = Buffer.byteLength(parts[0], 'latin1');
+	bodies.forEach((body, index) => {
+		const part = `${index + 1} 0 obj\n${body}\nendobj\n`;
+		offsets.push(offset);
+		parts.push(part);
+		offset += Buffer.byteLength(part, 'latin1');
+	});
+
+	const xref = [
+		`xref\n0 ${bodies.length + 1}\n`,
+		'0000000000 65535 f \n',
+		...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`),
+		`trailer\n<< /Size ${bodies.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+	];
+
+	return Buffer.from([...parts, ...xref].join(''), 'latin1');
+}
+
+export interface PdfChunk {
+	buffer: Buffer;
+	// Page numbers of the original document contained in the chunk
+	pages: number[];
+}
+
+/**
+ * Select pages of a PDF and split them into chunks of at most `pagesPerChunk` pages.
+ * An empty selection keeps every page; `pagesPerChunk` of 0 keeps a single chunk.
+ */
+export function splitPdfDocument(
+	buffer: Buffer,
+	selection: string,
+	pagesPerChunk: number
+): PdfChunk[] {
+	const pageCount = getPdfPageCount(buffer);
+	const pages = selection.trim()
+		? parsePageRanges(selection, pageCount)
+		: Array.from({ length: pageCount }, (_, index) => index + 1);
+	const chunkSize = pagesPerChunk > 0 ? pagesPerChunk : pages.length;
+
+	if (pages.length === pageCount && chunkSize >= pageCount) {
+		return [{ buffer, pages }];
+	}
+
+	const chunks: PdfChunk[] = [];
+	for (let start = 0; start < pages.length; start += chunkSize) {
+		const chunkPages = pages.slice(start, start + chunkSize);
+		chunks.push({
+			buffer: extractPdfPages(buffer, chunkPages),
+			pages: chunkPages,
+		});
+	}
+	return chunks;
+}
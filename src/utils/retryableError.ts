@@ -0,0 +1,70 @@
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED'];
+
+/**
+ * Get the HTTP status code from an error thrown by LangChain, Axios or n8n's HTTP helpers
+ */
+export function getErrorStatusCode(error: any): number | undefined {
+	const status =
+		error?.status ??
+		error?.statusCode ??
+		error?.response?.status ??
+		error?.cause?.response?.status ??
+		error?.httpCode;
+	const statusCode = Number(status);
+	return Number.isInteger(statusCode) && statusCode > 0
+		? statusCode
+		: undefined;
+}
+
+/**
+ * Whether a failed request is worth retrying: rate limiting, server errors
+ * and temporary network errors
+ */
+export function isRetryableError(error: any): boolean {
+	const code = error?.code ?? error?.cause?.code;
+	if (RETRYABLE_NETWORK_CODES.includes(code)) {
+		// Network errors that might be temporary
+		return true;
+	}
+
+	const statusCode = getErrorStatusCode(error);
+	if (statusCode === undefined) return false;
+
+	// Rate limiting and server errors that might be temporary
+	return statusCode === 429 || (statusCode >= 500 && statusCode < 600);
+}
+
+/**
+ * Whether a failed request that creates a resource can be retried without the risk of
+ * creating it twice: the server rejected it with 429 or the connection was never established
+ */
+export function isRetryableBeforeProcessing(error: any): boolean {
+	const code = error?.code ?? error?.cause?.code;
+	if (code === 'ECONNREFUSED') return true;
+
+	return getErrorStatusCode(error) === 429;
+}
+
+/**
+ * Get the delay requested by a `Retry-After` response header in milliseconds.
+ * The header is either a number of seconds or an HTTP date.
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+	const headers =
+		error?.headers ??
+		error?.response?.headers ??
+		error?.cause?.response?.headers;
+	if (!headers) return undefined;
+
+	const value =
+		typeof headers.get === 'function'
+			? headers.get('retry-after')
+			: (headers['retry-after'] ?? headers['Retry-After']);
+	if (value === undefined || value === null || value === '') return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(String(value));
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -46,3 +46,62 @@ export function getConnectionHintNoticeField(
 		description: `Connect this node to: ${connectionTypes}`,
 	};
 }
+
+/**
+ * Get the retry and timeout options collection shared by the regular Upstage nodes
+ */
+export function getRetryOptionsField(): INodeProperties {
+	return {
+		displayName: 'Request Options',
+		name: 'retryOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		description:
+			'Retry rate limited (429), server (5xx) and network errors. File uploads and async jobs are only retried when rate limited or the connection was refused, so they are never created twice. A Retry-After header from the API takes precedence over the computed delay.',
+		options: [
+			{
+				displayName: 'Max Attempts',
+				name: 'maxAttempts',
+				type: 'number',
+				default: 3,
+				typeOptions: {
+					minValue: 1,
+					maxValue: 10,
+				},
+				description:
+					'Maximum number of attempts per request, including the first one',
+			},
+			{
+				displayName: 'Base Delay (Ms)',
+				name: 'baseDelay',
+				type: 'number',
+				default: 1000,
+				typeOptions: {
+					minValue: 0,
+				},
+				description:
+					'Delay before the first retry in milliseconds. Doubled on every further retry.',
+			},
+			{
+				displayName: 'Jitter',
+				name: 'jitter',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to randomize retry delays so parallel executions do not retry at the same time',
+			},
+			{
+				displayName: 'Timeout (Ms)',
+				name: 'timeout',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				description:
+					'Time in milliseconds to wait for each API request before it fails. 0 waits indefinitely, as large documents can take several minutes to parse.',
+			},
+		],
+	};
+}
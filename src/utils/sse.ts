@@ -0,0 +1,78 @@
+/**
+ * A single server-sent event
+ */
+export interface SseEvent {
+	event?: string;
+	data: string;
+}
+
+/**
+ * Parse a server-sent events stream into events.
+ * Multi-line `data:` fields are joined with a newline, comments are skipped.
+ */
+export async function* parseSseStream(
+	stream: AsyncIterable<Buffer | Uint8Array | string>
+): AsyncGenerator<SseEvent> {
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let eventName: string | undefined;
+	let dataLines: string[] = [];
+
+	const processLine = (line: string): SseEvent | undefined => {
+		if (line === '') {
+			if (dataLines.length === 0) {
+				eventName = undefined;
+				return undefined;
+			}
+			const sseEvent: SseEvent = {
+				event: eventName,
+				data: dataLines.join('\n'),
+			};
+			eventName = undefined;
+			dataLines = [];
+			return sseEvent;
+		}
+
+		// Comment line (e.g. keep-alive)
+		if (line.startsWith(':')) return undefined;
+
+		const colonIndex = line.indexOf(':');
+		const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+		let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+		if (value.startsWith(' ')) value = value.slice(1);
+
+		if (field === 'data') {
+			dataLines.push(value);
+		} else if (field === 'event') {
+			eventName = value;
+		}
+		return undefined;
+	};
+
+	for await (const chunk of stream) {
+		buffer +=
+			typeof chunk === 'string'
+				? chunk
+				: decoder.decode(chunk, { stream: true });
+
+		let newlineIndex = buffer.indexOf('\n');
+		while (newlineIndex !== -1) {
+			const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+			buffer = buffer.slice(newlineIndex + 1);
+
+			const sseEvent = processLine(line);
+			if (sseEvent) yield sseEvent;
+
+			newlineIndex = buffer.indexOf('\n');
+		}
+	}
+
+	// Flush whatever is left when the stream ends without a trailing blank line
+	buffer += decoder.decode();
+	if (buffer) {
+		const sseEvent = processLine(buffer.replace(/\r$/, ''));
+		if (sseEvent) yield sseEvent;
+	}
+	const lastEvent = processLine('');
+	if (lastEvent) yield lastEvent;
+}
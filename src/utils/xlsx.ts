@@ -0,0 +1,174 @@
+import { deflateRawSync } from 'zlib';
+
+/**
+ * Minimal XLSX writer: a single worksheet with inline strings and numbers,
+ * packed into a ZIP container without external dependencies.
+ */
+
+interface ZipEntry {
+	name: string;
+	data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createZip(entries: ZipEntry[]): Buffer {
+	const localParts: Buffer[] = [];
+	const centralParts: Buffer[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = Buffer.from(entry.name, 'utf8');
+		const compressed = deflateRawSync(entry.data);
+		const crc = crc32(entry.data);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(0x04034b50, 0);
+		local.writeUInt16LE(20, 4); // version needed
+		local.writeUInt16LE(0x0800, 6); // UTF-8 names
+		local.writeUInt16LE(8, 8); // deflate
+		local.writeUInt32LE(0, 10); // time and date
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(entry.data.length, 22);
+		local.writeUInt16LE(name.length, 26);
+		local.writeUInt16LE(0, 28);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(0x02014b50, 0);
+		central.writeUInt16LE(20, 4); // version made by
+		central.writeUInt16LE(20, 6); // version needed
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt32LE(0, 12);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(entry.data.length, 24);
+		central.writeUInt16LE(name.length, 28);
+		central.writeUInt32LE(offset, 42);
+
+		localParts.push(local, name, compressed);
+		centralParts.push(central, name);
+		offset += local.length + name.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(entries.length, 8);
+	end.writeUInt16LE(entries.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+
+	return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function escapeXml(value: string): string {
+	// Control characters other than tab and newlines are not allowed in XML
+	return value
+		.replace(/[^\t\n\r\u0020-\uffff]/g, '')
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+	let name = '';
+	for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+		name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+	}
+	return name;
+}
+
+function cellXml(value: string, reference: string): string {
+	// Only write values that survive the round trip as numbers, so codes like "007" keep their zeros
+	const number = Number(value);
+	if (Number.isFinite(number) && String(number) === value) {
+		return `<c r="${reference}"><v>${value}</v></c>`;
+	}
+	return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Build an XLSX workbook with one sheet containing the given rows
+ */
+export function createXlsx(rows: string[][], sheetName = 'Sheet1'): Buffer {
+	const sheetRows = rows
+		.map(
+			(row, rowIndex) =>
+				`<row r="${rowIndex + 1}">${row
+					.map((value, columnIndex) =>
+						cellXml(value ?? '', `${columnName(columnIndex)}${rowIndex + 1}`)
+					)
+					.join('')}</row>`
+		)
+		.join('');
+
+	const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+	const safeSheetName =
+		sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1';
+
+	return createZip([
+		{
+			name: '[Content_Types].xml',
+			data: Buffer.from(
+				`${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+					'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+					'<Default Extension="xml" ContentType="application/xml"/>' +
+					'<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+					'<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+					'</Types>'
+			),
+		},
+		{
+			name: '_rels/.rels',
+			data: Buffer.from(
+				`${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+					'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+					'</Relationships>'
+			),
+		},
+		{
+			name: 'xl/workbook.xml',
+			data: Buffer.from(
+				`${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+					`<sheets><sheet name="${escapeXml(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+					'</workbook>'
+			),
+		},
+		{
+			name: 'xl/_rels/workbook.xml.rels',
+			data: Buffer.from(
+				`${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+					'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+					'</Relationships>'
+			),
+		},
+		{
+			name: 'xl/worksheets/sheet1.xml',
+			data: Buffer.from(
+				`${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+					`<sheetData>${sheetRows}</sheetData></worksheet>`
+			),
+		},
+	]);
+}
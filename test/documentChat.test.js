@@ -0,0 +1,85 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const {
+	addCitationFootnotes,
+	getResponseCitations,
+	getResponseText,
+} = require('../dist/utils/documentChat');
+
+const response = {
+	output: [
+		{ type: 'reasoning', summary: [{ type: 'summary_text', text: 'Why' }] },
+		{
+			type: 'message',
+			role: 'assistant',
+			content: [
+				{
+					type: 'output_text',
+					text: 'Revenue grew.',
+					annotations: [
+						{
+							file_id: 'file-1',
+							filename: 'report.pdf',
+							page: '3',
+							quote: 'grew',
+							start_index: 8,
+							end_index: 12,
+						},
+					],
+				},
+				{
+					type: 'output_text',
+					text: ' Costs fell.',
+					annotations: [
+						{ filename: 'report.pdf', page: 3, quote: 'grew', end_index: 11 },
+						{ file_id: 'file-2', end_index: 99 },
+					],
+				},
+			],
+		},
+	],
+};
+
+describe('getResponseCitations', () => {
+	it('makes offsets relative to the full response text', () => {
+		assert.equal(getResponseText(response), 'Revenue grew. Costs fell.');
+		assert.deepEqual(getResponseCitations(response), [
+			{
+				fileId: 'file-1',
+				fileName: 'report.pdf',
+				page: 3,
+				quote: 'grew',
+				startIndex: 8,
+				endIndex: 12,
+			},
+			{ fileName: 'report.pdf', page: 3, quote: 'grew', endIndex: 24 },
+			{ fileId: 'file-2', endIndex: 112 },
+		]);
+	});
+});
+
+describe('addCitationFootnotes', () => {
+	it('inserts markers at the cited offsets and lists each source once', () => {
+		assert.equal(
+			addCitationFootnotes(
+				getResponseText(response),
+				getResponseCitations(response)
+			),
+			'Revenue grew[1]. Costs fell[1].\n\nSources:\n' +
+				'[1] report.pdf, page 3: "grew"\n[2] file-2'
+		);
+	});
+
+	it('does not repeat a marker for citations ending at the same offset', () => {
+		const citation = { fileName: 'a.pdf', endIndex: 5 };
+		assert.equal(
+			addCitationFootnotes('Hello world', [citation, { ...citation }]),
+			'Hello[1] world\n\nSources:\n[1] a.pdf'
+		);
+	});
+
+	it('returns the text unchanged without citations', () => {
+		assert.equal(addCitationFootnotes('Hello', []), 'Hello');
+	});
+});
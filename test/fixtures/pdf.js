@@ -0,0 +1,165 @@
+const { deflateSync } = require('zlib');
+
+/**
+ * Small PDF documents built in memory, with correct cross-reference offsets.
+ * Every page shows the text of its content stream, e.g. "(Page 1) Tj".
+ */
+
+function streamObject(dict, data) {
+	return `<< ${dict} /Length ${Buffer.byteLength(data, 'latin1')} >>\nstream\n${data}\nendstream`;
+}
+
+function pageObjects(texts, firstNumber) {
+	// Catalog 1, page tree 2, then a page and a content stream per page
+	const kids = texts.map((_, i) => `${firstNumber + i * 2} 0 R`).join(' ');
+	const objects = [
+		[1, '<< /Type /Catalog /Pages 2 0 R >>'],
+		[
+			2,
+			`<< /Type /Pages /Kids [${kids}] /Count ${texts.length} /MediaBox [0 0 200 200] >>`,
+		],
+	];
+	texts.forEach((text, i) => {
+		const page = firstNumber + i * 2;
+		objects.push([
+			page,
+			`<< /Type /Page /Parent 2 0 R /Contents ${page + 1} 0 R >>`,
+		]);
+		objects.push([page + 1, streamObject('', text)]);
+	});
+	return objects;
+}
+
+function classicXref(entries, trailer, offset) {
+	const lines = ['xref\n'];
+	for (const [number, entryOffset] of entries) {
+		lines.push(
+			`${number} 1\n${String(entryOffset).padStart(10, '0')} 00000 n \n`
+		);
+	}
+	lines.push(`trailer\n${trailer}\nstartxref\n${offset}\n%%EOF\n`);
+	return lines.join('');
+}
+
+// Append indirect objects and return their offsets
+function appendObjects(parts, objects) {
+	const offsets = [];
+	for (const [number, body] of objects) {
+		offsets.push([number, Buffer.byteLength(parts.join(''), 'latin1')]);
+		parts.push(`${number} 0 obj\n${body}\nendobj\n`);
+	}
+	return offsets;
+}
+
+function toBuffer(parts) {
+	return Buffer.from(parts.join(''), 'latin1');
+}
+
+/**
+ * Classic PDF with one page per text
+ */
+function createPdf(texts) {
+	const objects = pageObjects(texts, 3);
+	const parts = ['%PDF-1.4\n'];
+	const offsets = appendObjects(parts, objects);
+	const xrefOffset = Buffer.byteLength(parts.join(''), 'latin1');
+	parts.push(
+		classicXref(
+			offsets,
+			`<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+			xrefOffset
+		)
+	);
+	return toBuffer(parts);
+}
+
+/**
+ * Incremental update that replaces the content stream of one page with a new object
+ * stored in a direct object (classic xref) or in an object stream (compressed xref stream)
+ */
+function updatePageContent(
+	buffer,
+	pageIndex,
+	text,
+	{ compressed = false } = {}
+) {
+	const original = buffer.toString('latin1');
+	const prev = /startxref\s+(\d+)\s+%%EOF\s*$/.exec(original)[1];
+	const size = parseInt(/\/Size (\d+)/.exec(original)[1], 10);
+	const page = 3 + pageIndex * 2;
+	const content = size;
+	const pageBody = `<< /Type /Page /Parent 2 0 R /Contents ${content} 0 R >>`;
+	const parts = [original];
+
+	if (!compressed) {
+		const offsets = appendObjects(parts, [
+			[page, pageBody],
+			[content, streamObject('', text)],
+		]);
+		const xrefOffset = Buffer.byteLength(parts.join(''), 'latin1');
+		parts.push(
+			classicXref(
+				offsets,
+				`<< /Size ${size + 1} /Root 1 0 R /Prev ${prev} >>`,
+				xrefOffset
+			)
+		);
+		return toBuffer(parts);
+	}
+
+	// The page object goes into an object stream, the content stream stays direct
+	const objectStream = size + 1;
+	const xrefStream = size + 2;
+	const streamHeader = `${page} 0 `;
+	const [contentOffset] = appendObjects(parts, [
+		[content, streamObject('', text)],
+	]);
+	const [objectStreamOffset] = appendObjects(parts, [
+		[
+			objectStream,
+			streamObject(
+				`/Type /ObjStm /N 1 /First ${streamHeader.length}`,
+				`${streamHeader}${pageBody}`
+			),
+		],
+	]);
+
+	// Entries: type (1 byte), offset or object stream (4 bytes), index (1 byte)
+	const rows = [
+		[2, page, objectStream, 0],
+		[1, content, contentOffset[1], 0],
+		[1, objectStream, objectStreamOffset[1], 0],
+	];
+	const xrefOffset = Buffer.byteLength(parts.join(''), 'latin1');
+	rows.push([1, xrefStream, xrefOffset, 0]);
+	rows.sort((a, b) => a[1] - b[1]);
+
+	// PNG "Up" predictor on every row, as written by most PDF producers
+	const columns = 6;
+	const raw = rows.map(([type, , field, index]) => {
+		const row = Buffer.alloc(columns);
+		row.writeUInt8(type, 0);
+		row.writeUInt32BE(field, 1);
+		row.writeUInt8(index, 5);
+		return row;
+	});
+	const predicted = raw.map((row, i) => {
+		const previous = i > 0 ? raw[i - 1] : Buffer.alloc(columns);
+		return Buffer.concat([
+			Buffer.from([2]),
+			Buffer.from(row.map((byte, j) => (byte - previous[j]) & 0xff)),
+		]);
+	});
+	const data = deflateSync(Buffer.concat(predicted)).toString('latin1');
+	const index = rows.map(([, number]) => `${number} 1`).join(' ');
+
+	parts.push(
+		`${xrefStream} 0 obj\n${streamObject(
+			`/Type /XRef /Size ${xrefStream + 1} /W [1 4 1] /Index [${index}] /Root 1 0 R /Prev ${prev} /Filter /FlateDecode /DecodeParms << /Columns ${columns} /Predictor 12 >>`,
+			data
+		)}\nendobj\nstartxref\n${xrefOffset}\n%%EOF\n`
+	);
+	return toBuffer(parts);
+}
+
+module.exports = { createPdf, updatePageContent };
@@ -0,0 +1,70 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const {
+	parseHtmlTable,
+	tableToCsv,
+	tableToRecords,
+} = require('../dist/utils/htmlTable');
+
+describe('parseHtmlTable', () => {
+	it('copies row and column spans into every cell they cover', () => {
+		const table = parseHtmlTable(
+			'<table><tr><th>Region</th><th>Q1</th><th>Q2</th></tr>' +
+				'<tr><td rowspan="2">North</td><td colspan="2">10</td></tr>' +
+				'<tr><td>3</td><td>4</td></tr></table>'
+		);
+
+		assert.deepEqual(table.headers, ['Region', 'Q1', 'Q2']);
+		assert.deepEqual(table.rows, [
+			['North', '10', '10'],
+			['North', '3', '4'],
+		]);
+	});
+
+	it('joins stacked header rows from <thead>', () => {
+		const table = parseHtmlTable(
+			'<table><thead><tr><th rowspan="2">Name</th><th colspan="2">Sales</th></tr>' +
+				'<tr><th>2023</th><th>2024</th></tr></thead>' +
+				'<tbody><tr><td>A</td><td>1</td><td>2</td></tr></tbody></table>'
+		);
+
+		assert.deepEqual(table.headers, ['Name', 'Sales / 2023', 'Sales / 2024']);
+		assert.deepEqual(table.rows, [['A', '1', '2']]);
+	});
+
+	it('falls back to the first row without header cells', () => {
+		const html =
+			'<table><tr><td>a</td><td>a</td></tr><tr><td>1</td><td>2</td></tr></table>';
+
+		const auto = parseHtmlTable(html);
+		assert.deepEqual(auto.headers, ['a', 'a_2']);
+		assert.deepEqual(auto.rows, [['1', '2']]);
+
+		const none = parseHtmlTable(html, 'none');
+		assert.deepEqual(none.headers, ['column_1', 'column_2']);
+		assert.equal(none.rows.length, 2);
+	});
+
+	it('decodes entities and keeps line breaks inside cells', () => {
+		const table = parseHtmlTable(
+			'<table><tr><th>Name</th></tr><tr><td>R&amp;D<br>Team&#33;</td></tr></table>'
+		);
+
+		assert.deepEqual(tableToRecords(table), [{ Name: 'R&D\nTeam!' }]);
+	});
+});
+
+describe('tableToCsv', () => {
+	it('quotes values with commas, quotes and line breaks', () => {
+		const csv = tableToCsv({
+			headers: ['name', 'note'],
+			rows: [
+				['a,b', 'say "hi"'],
+				['line\nbreak', 'plain'],
+			],
+		});
+
+		assert.equal(csv, 'name,note\r\n"a,b","say ""hi"""\r\n"line\nbreak",plain');
+	});
+});
@@ -0,0 +1,100 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { validateJsonSchema } = require('../dist/utils/jsonSchemaValidator');
+
+const invoiceSchema = {
+	type: 'object',
+	properties: {
+		number: { type: 'string', pattern: '^INV-\\d+$' },
+		total: { type: 'number', minimum: 0 },
+		status: { enum: ['open', 'paid'] },
+		items: {
+			type: 'array',
+			minItems: 1,
+			items: { $ref: '#/$defs/item' },
+		},
+	},
+	required: ['number', 'total'],
+	additionalProperties: false,
+	$defs: {
+		item: {
+			type: 'object',
+			properties: { quantity: { type: 'integer' } },
+			required: ['quantity'],
+		},
+	},
+};
+
+describe('validateJsonSchema', () => {
+	it('returns no errors for a valid value', () => {
+		assert.deepEqual(
+			validateJsonSchema(
+				{
+					number: 'INV-1',
+					total: 12.5,
+					status: 'paid',
+					items: [{ quantity: 2 }],
+				},
+				invoiceSchema
+			),
+			[]
+		);
+	});
+
+	it('reports every error with the path of the offending value', () => {
+		const errors = validateJsonSchema(
+			{
+				number: 'X-1',
+				total: -1,
+				status: 'draft',
+				items: [{ quantity: 1.5 }, {}],
+				note: 'extra',
+			},
+			invoiceSchema
+		);
+
+		assert.deepEqual(errors, [
+			'$.number: must match pattern ^INV-\\d+$',
+			'$.total: must be >= 0',
+			'$.status: must be one of "open", "paid"',
+			'$.items[0].quantity: expected integer, got number',
+			'$.items[1]: missing required property "quantity"',
+			'$: unexpected property "note"',
+		]);
+	});
+
+	it('reports missing required properties and wrong types', () => {
+		assert.deepEqual(validateJsonSchema({ total: '10' }, invoiceSchema), [
+			'$: missing required property "number"',
+			'$.total: expected number, got string',
+		]);
+		assert.deepEqual(validateJsonSchema([], invoiceSchema), [
+			'$: expected object, got array',
+		]);
+	});
+
+	it('checks anyOf and oneOf alternatives', () => {
+		const schema = {
+			oneOf: [{ type: 'integer' }, { type: 'number', minimum: 0 }],
+		};
+
+		assert.deepEqual(validateJsonSchema(-1.5, schema), [
+			'$: must match exactly one schema in oneOf (matched 0)',
+		]);
+		assert.deepEqual(validateJsonSchema(2, schema), [
+			'$: must match exactly one schema in oneOf (matched 2)',
+		]);
+		assert.deepEqual(
+			validateJsonSchema(null, { anyOf: [{ type: 'string' }] }),
+			['$: must match at least one schema in anyOf']
+		);
+	});
+
+	it('rejects references outside the schema', () => {
+		assert.throws(
+			() => validateJsonSchema({}, { $ref: 'https://example.com/schema' }),
+			/Only local \$ref values are supported/
+		);
+	});
+});
@@ -0,0 +1,118 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const {
+	extractPdfPages,
+	getPdfPageCount,
+	parsePageRanges,
+	splitPdfDocument,
+} = require('../dist/utils/pdf');
+const { createPdf, updatePageContent } = require('./fixtures/pdf');
+
+const text = buffer => buffer.toString('latin1');
+
+describe('extractPdfPages', () => {
+	it('keeps the selected pages in the requested order', () => {
+		const pdf = createPdf(['(Page 1) Tj', '(Page 2) Tj', '(Page 3) Tj']);
+		assert.equal(getPdfPageCount(pdf), 3);
+
+		const extracted = extractPdfPages(pdf, [3, 1]);
+		assert.equal(getPdfPageCount(extracted), 2);
+		const output = text(extracted);
+		assert.ok(output.indexOf('(Page 3)') < output.indexOf('(Page 1)'));
+		assert.ok(!output.includes('(Page 2)'));
+	});
+
+	it('uses /Length for streams whose data contains "endstream"', () => {
+		const binary = '(Page 2) Tj\nendstream\n\xff\x00 2 0 obj << >> (Tail) Tj';
+		const pdf = createPdf(['(Page 1) Tj', binary]);
+		assert.equal(getPdfPageCount(pdf), 2);
+
+		const output = text(extractPdfPages(pdf, [2]));
+		assert.ok(output.includes(`stream\n${binary}\nendstream`));
+	});
+
+	it('uses the newest version of objects changed by an incremental update', () => {
+		const pdf = updatePageContent(
+			createPdf(['(Page 1) Tj', '(Old) Tj']),
+			1,
+			'(New) Tj'
+		);
+
+		const output = text(extractPdfPages(pdf, [2]));
+		assert.ok(output.includes('(New) Tj'));
+		assert.ok(!output.includes('(Old) Tj'));
+	});
+
+	it('prefers objects from a newer object stream over older direct objects', () => {
+		const pdf = updatePageContent(
+			createPdf(['(Page 1) Tj', '(Old) Tj']),
+			1,
+			'(New) Tj',
+			{ compressed: true }
+		);
+		assert.equal(getPdfPageCount(pdf), 2);
+
+		const output = text(extractPdfPages(pdf, [2]));
+		assert.ok(output.includes('(New) Tj'));
+		assert.ok(!output.includes('(Old) Tj'));
+	});
+
+	it('falls back to scanning the objects when the xref offsets are wrong', () => {
+		const updated = updatePageContent(
+			createPdf(['(Page 1) Tj', '(Old) Tj']),
+			1,
+			'(New) Tj'
+		);
+		const pdf = Buffer.from(
+			text(updated).replace(
+				/startxref\s+\d+\s+%%EOF\s*$/,
+				'startxref\n1\n%%EOF\n'
+			),
+			'latin1'
+		);
+
+		const output = text(extractPdfPages(pdf, [2]));
+		assert.ok(output.includes('(New) Tj'));
+		assert.ok(!output.includes('(Old) Tj'));
+	});
+
+	it('rejects pages outside the document', () => {
+		const pdf = createPdf(['(Page 1) Tj']);
+		assert.throws(() => extractPdfPages(pdf, [2]), /outside the document/);
+	});
+});
+
+describe('splitPdfDocument', () => {
+	it('splits the selected pages into chunks', () => {
+		const pdf = createPdf(['(Page 1) Tj', '(Page 2) Tj', '(Page 3) Tj']);
+
+		const chunks = splitPdfDocument(pdf, '1-3', 2);
+		assert.deepEqual(
+			chunks.map(chunk => chunk.pages),
+			[[1, 2], [3]]
+		);
+		assert.deepEqual(
+			chunks.map(chunk => getPdfPageCount(chunk.buffer)),
+			[2, 1]
+		);
+	});
+
+	it('returns the original document when every page fits in one chunk', () => {
+		const pdf = createPdf(['(Page 1) Tj', '(Page 2) Tj']);
+
+		const [chunk] = splitPdfDocument(pdf, '', 0);
+		assert.equal(chunk.buffer, pdf);
+		assert.deepEqual(chunk.pages, [1, 2]);
+	});
+});
+
+describe('parsePageRanges', () => {
+	it('parses single pages and open ranges', () => {
+		assert.deepEqual(parsePageRanges('7, 1-3, 9-', 10), [1, 2, 3, 7, 9, 10]);
+	});
+
+	it('rejects ranges outside the document', () => {
+		assert.throws(() => parsePageRanges('2-5', 3), /outside the document/);
+	});
+});
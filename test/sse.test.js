@@ -0,0 +1,52 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+
+const { parseSseStream } = require('../dist/utils/sse');
+
+const collect = async chunks => {
+	const events = [];
+	for await (const sseEvent of parseSseStream(
+		(async function* () {
+			yield* chunks;
+		})()
+	)) {
+		events.push(sseEvent);
+	}
+	return events;
+};
+
+describe('parseSseStream', () => {
+	it('parses events split across chunk boundaries', async () => {
+		const events = await collect([
+			'event: mes',
+			'sage\nda',
+			'ta: {"a":',
+			'1}\n',
+			'\nevent: done\ndata: [DONE]\n\n',
+		]);
+
+		assert.deepEqual(events, [
+			{ event: 'message', data: '{"a":1}' },
+			{ event: 'done', data: '[DONE]' },
+		]);
+	});
+
+	it('decodes multi-byte characters split between buffers', async () => {
+		const bytes = Buffer.from('data: 안녕\n\n');
+		const events = await collect([bytes.subarray(0, 8), bytes.subarray(8)]);
+
+		assert.deepEqual(events, [{ event: undefined, data: '안녕' }]);
+	});
+
+	it('handles CRLF line endings split between \\r and \\n', async () => {
+		const events = await collect(['data: one\r', '\ndata: two\r\n\r', '\n']);
+
+		assert.deepEqual(events, [{ event: undefined, data: 'one\ntwo' }]);
+	});
+
+	it('skips comments and flushes a final event without a blank line', async () => {
+		const events = await collect([': keep-alive\n\n', 'data:last']);
+
+		assert.deepEqual(events, [{ event: undefined, data: 'last' }]);
+	});
+});
@@ -0,0 +1,59 @@
+const assert = require('node:assert/strict');
+const { describe, it } = require('node:test');
+const { inflateRawSync } = require('node:zlib');
+
+const { createXlsx } = require('../dist/utils/xlsx');
+
+// Read a file from the ZIP container through its local header
+const readEntry = (zip, name) => {
+	for (let offset = 0; zip.readUInt32LE(offset) === 0x04034b50; ) {
+		const compressedSize = zip.readUInt32LE(offset + 18);
+		const nameLength = zip.readUInt16LE(offset + 26);
+		const extraLength = zip.readUInt16LE(offset + 28);
+		const dataStart = offset + 30 + nameLength + extraLength;
+		const entryName = zip.toString(
+			'utf8',
+			offset + 30,
+			offset + 30 + nameLength
+		);
+		const data = zip.subarray(dataStart, dataStart + compressedSize);
+		if (entryName === name) return inflateRawSync(data).toString('utf8');
+		offset = dataStart + compressedSize;
+	}
+	throw new Error(`Entry ${name} not found`);
+};
+
+describe('createXlsx', () => {
+	it('writes numbers as numeric cells and keeps other values as text', () => {
+		const sheet = readEntry(
+			createXlsx([
+				['id', 'amount'],
+				['007', '12.5'],
+				['1e3', '-4'],
+			]),
+			'xl/worksheets/sheet1.xml'
+		);
+
+		assert.ok(sheet.includes('<c r="B2"><v>12.5</v></c>'));
+		assert.ok(sheet.includes('<c r="B3"><v>-4</v></c>'));
+		assert.ok(
+			sheet.includes(
+				'<c r="A2" t="inlineStr"><is><t xml:space="preserve">007</t>'
+			)
+		);
+		assert.ok(
+			sheet.includes(
+				'<c r="A3" t="inlineStr"><is><t xml:space="preserve">1e3</t>'
+			)
+		);
+	});
+
+	it('escapes XML characters in text cells', () => {
+		const sheet = readEntry(
+			createXlsx([['<a & "b">']]),
+			'xl/worksheets/sheet1.xml'
+		);
+
+		assert.ok(sheet.includes('&lt;a &amp; &quot;b&quot;&gt;'));
+	});
+});